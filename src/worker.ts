@@ -1,43 +1,196 @@
 interface Env {
   DEFAULT_TEST_DOMAIN?: string;
   REQUEST_TIMEOUT_MS?: string;
+  REFERENCE_RESOLVERS?: string;
+  RESOLVERS_KV?: KVNamespace;
+  BATCH_CONCURRENCY?: string;
+  BATCH_MAX_ITEMS?: string;
+  SUBREQUEST_LIMIT?: string;
+  DNSSEC_TRUST_ANCHORS?: string;
+  ASN_PREFIXES?: string;
+  FILTERING_CANARIES?: string;
+  RESULTS_KV?: KVNamespace;
+  RESULT_RETENTION_DAYS?: string;
+  WATCH_LIST?: string;
+  MONITOR_KV?: KVNamespace;
+  MONITOR_HISTORY_LIMIT?: string;
+  ALERT_WEBHOOKS?: string;
+  TARGET_ALLOWED_PORTS?: string;
+  TARGET_ALLOWLIST?: string;
+  TARGET_DENYLIST?: string;
+  RATE_LIMITER?: DurableObjectNamespace;
+  RATE_LIMIT_PER_IP?: string;
+  RATE_LIMIT_PER_TARGET?: string;
+  API_KEYS?: string;
+  ALLOW_ANONYMOUS?: string;
+  RATE_LIMIT_PER_KEY?: string;
 }
 
-type DohStatus = "success" | "failure" | "partial_match";
+type DohStatus = "success" | "failure" | "partial_match" | "resolver_error" | "empty_answer";
 
-type Mode = "doh" | "ech";
+type Mode = "doh" | "ech" | "dnssec" | "ecs" | "padding" | "nxdomain" | "filtering" | "benchmark" | "cache";
 
-type ProviderKey = "target" | "cloudflare" | "google";
+type ProviderKey = string;
 
 type DohResponseFormat = "json" | "wire" | "text" | "unknown";
 
+type DnsRecord = {
+  name: string;
+  type: string;
+  ttl: number | null;
+  data: string;
+};
+
+type ParsedDnsRecord = {
+  name: string;
+  type: number;
+  class: number;
+  ttl: number;
+  offset: number;
+  length: number;
+  data: string;
+};
+
+type ParsedDnsMessage = {
+  message: Uint8Array;
+  id: number;
+  flags: number;
+  rcode: number;
+  questions: Array<{ name: string; type: number; class: number }>;
+  answers: ParsedDnsRecord[];
+  authority: ParsedDnsRecord[];
+  additional: ParsedDnsRecord[];
+};
+
+type DohQuery = {
+  name: string;
+  record_type: string;
+  dual_stack?: boolean;
+  compare?: AnswerCompareMode;
+};
+
+/** exact：地址集合必须完全相同；cdn：按共同网段与来源 ASN 计算相似度。 */
+type AnswerCompareMode = "exact" | "cdn";
+
+type AsnPrefixGroup = {
+  asn: number;
+  name: string;
+  prefixes: string[];
+};
+
+type AsnPrefixEntry = {
+  asn: number;
+  name: string;
+  family: 1 | 2;
+  prefix: number;
+  address: Uint8Array;
+};
+
+type AnswerAddress = {
+  ip: string;
+  network: string;
+  asn: AsnPrefixEntry | null;
+};
+
+type AnswerSimilarity = {
+  score: number;
+  exact: number;
+  same_prefix: number;
+  same_asn: number;
+  unrelated: number;
+  target_asns: string[];
+  reference_asns: string[];
+  explanation: string;
+};
+
 type DohBaseResult = {
   status: number | null;
   ok: boolean;
   ips: string[];
+  records?: DnsRecord[];
+  /** 从查询名称出发依次跟随 CNAME 得到的名称链，例如 ["www.example.com", "example.cdn.net"]。 */
+  cname_chain?: string[];
+  authority?: DnsRecord[];
+  header?: DnsResponseHeader;
+  answer_status?: DnsAnswerStatus;
   latency_ms: number | null;
   response_format?: DohResponseFormat;
   content_type?: string | null;
   raw?: unknown;
+  dnssec?: DnssecResponseInfo;
+  client_subnet?: EcsOptionInfo | null;
+  padding?: EdnsPaddingInfo;
   error?: string;
 };
 
+type DnsResponseHeader = {
+  rcode: number;
+  rcode_name: string;
+  flags: {
+    qr: boolean | null;
+    aa: boolean | null;
+    tc: boolean | null;
+    rd: boolean | null;
+    ra: boolean | null;
+    ad: boolean | null;
+    cd: boolean | null;
+  };
+};
+
+/** answer：有记录；nodata：NOERROR 但无记录；nxdomain：域名不存在；error：其他 RCODE。 */
+type DnsAnswerStatus = "answer" | "nodata" | "nxdomain" | "error";
+
+type DnsQueryOptions = {
+  dnssec_ok?: boolean;
+  checking_disabled?: boolean;
+  client_subnet?: string;
+  padding_block?: number;
+};
+
+type EdnsPaddingInfo = {
+  message_length: number;
+  padded: boolean;
+  padding_length: number | null;
+};
+
+type EcsOptionInfo = {
+  family: number;
+  source_prefix: number;
+  scope_prefix: number;
+  address: string;
+};
+
+type DnssecResponseInfo = {
+  ad: boolean | null;
+  cd: boolean | null;
+  rrsig_count: number;
+};
+
 interface DohProviderModeResult extends DohBaseResult {
   mode: DohRequestMode;
+  record_type?: string;
+  supported?: boolean;
+  note?: string;
 }
 
 interface DohProviderResult extends DohBaseResult {
   attempted_formats: DohRequestMode[];
+  supported_formats?: DohRequestMode[];
   mode_results?: DohProviderModeResult[];
+  families?: Record<string, DohProviderResult>;
 }
 
 interface DohApiResponse {
   status: DohStatus;
   message: string;
+  query: DohQuery;
+  labels: Record<ProviderKey, string>;
   details: Record<ProviderKey, DohProviderResult>;
   comparison: {
-    matches_cloudflare: boolean;
-    matches_google: boolean;
+    matches: Record<ProviderKey, boolean>;
+    families?: Record<string, Record<ProviderKey, boolean>>;
+    cname_chains: Record<ProviderKey, boolean>;
+    similarity?: Record<ProviderKey, AnswerSimilarity>;
   };
   ech_comparison?: DohEchComparison;
 }
@@ -45,6 +198,8 @@ interface DohApiResponse {
 type EchBaseResult = {
   found: boolean;
   record?: string;
+  records?: HttpsRecordDetails[];
+  ech_config_list?: EchConfigList;
   status: number | null;
   latency_ms: number | null;
   response_format?: DohResponseFormat;
@@ -53,8 +208,90 @@ type EchBaseResult = {
   error?: string;
 };
 
+type EchConfigErrorCode =
+  | "invalid_encoding"
+  | "invalid_length"
+  | "unknown_version"
+  | "unsupported_kem"
+  | "invalid_public_key"
+  | "invalid_cipher_suites"
+  | "invalid_public_name"
+  | "invalid_extensions";
+
+type EchConfigIssue = {
+  code: EchConfigErrorCode;
+  message: string;
+};
+
+type EchCipherSuite = {
+  kdf_id: number;
+  kdf: string;
+  aead_id: number;
+  aead: string;
+};
+
+type EchConfigExtension = {
+  type: number;
+  length: number;
+  mandatory: boolean;
+};
+
+type EchConfigDetails = {
+  version: number;
+  length: number;
+  config_id?: number;
+  kem_id?: number;
+  kem?: string;
+  public_key_length?: number;
+  public_key?: string;
+  cipher_suites?: EchCipherSuite[];
+  maximum_name_length?: number;
+  public_name?: string;
+  extensions?: EchConfigExtension[];
+  error?: EchConfigIssue;
+};
+
+type EchConfigList = {
+  base64: string;
+  valid: boolean;
+  configs: EchConfigDetails[];
+  error?: EchConfigIssue;
+};
+
+type SvcParams = {
+  mandatory?: string[];
+  alpn?: string[];
+  no_default_alpn?: boolean;
+  port?: number;
+  ipv4hint?: string[];
+  ech?: string;
+  ipv6hint?: string[];
+  dohpath?: string;
+  unknown?: Array<{ key: number; value: string }>;
+};
+
+type HttpsRecordDetails = {
+  priority: number;
+  target: string;
+  mode: "alias" | "service";
+  params: SvcParams;
+  presentation: string;
+  ech_config_list?: EchConfigList;
+  error?: string;
+};
+
+type HttpsRecordSummary = {
+  found: boolean;
+  record?: string;
+  records: HttpsRecordDetails[];
+  echConfigList?: EchConfigList;
+  error?: string;
+};
+
 interface EchProviderModeResult extends EchBaseResult {
   mode: DohRequestMode;
+  supported?: boolean;
+  note?: string;
 }
 
 interface EchProviderResult extends EchBaseResult {
@@ -65,341 +302,3767 @@ interface EchProviderResult extends EchBaseResult {
 interface EchApiResponse {
   ech_enabled: boolean;
   message: string;
-  providers: Record<Exclude<ProviderKey, "target">, EchProviderResult>;
+  labels: Record<ProviderKey, string>;
+  providers: Record<ProviderKey, EchProviderResult>;
 }
 
-type DohProviderConfig = {
-  key: ProviderKey;
-  endpoint: string;
-};
-
-type DohRequestMode = "json" | "wire";
+type DnssecChainStatus = "secure" | "insecure" | "bogus" | "indeterminate";
 
-const CLOUDFLARE_DOH_ENDPOINT = "https://cloudflare-dns.com/dns-query";
-const GOOGLE_DOH_ENDPOINT = "https://dns.google/resolve";
-const HTTPS_RECORD_TYPE = 65;
-const DEFAULT_TIMEOUT_MS = 5000;
-const TEXT_HEADERS = { "Content-Type": "text/html; charset=utf-8" };
-const JSON_HEADERS = { "Content-Type": "application/json; charset=utf-8" };
+type DnssecBehaviour = "validating" | "non_validating" | "stripping" | "unsigned" | "unknown";
 
-export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
-    return handleRequest(request, env);
-  },
+type DnssecZoneStep = {
+  zone: string;
+  status: "secure" | "insecure" | "bogus";
+  dnskey_tags: number[];
+  ds_tags: number[];
+  algorithms: string[];
+  note?: string;
 };
 
-async function handleRequest(request: Request, env: Env): Promise<Response> {
-  const url = new URL(request.url);
+interface DnssecChainResult {
+  status: DnssecChainStatus;
+  source: ProviderKey | null;
+  signers: string[];
+  zones: DnssecZoneStep[];
+  queries: number;
+  error?: string;
+}
 
-  if (request.method === "OPTIONS") {
-    return withCors(new Response(null, { status: 204 }));
-  }
+interface DnssecProviderVerdict extends DnssecResponseInfo {
+  signatures_valid: boolean | null;
+  behaviour: DnssecBehaviour;
+  note: string;
+}
 
-  if (url.pathname === "/" && request.method === "GET") {
-    return withCors(new Response(HTML_PAGE, { headers: TEXT_HEADERS }));
-  }
+interface DnssecApiResponse {
+  status: DohStatus;
+  message: string;
+  query: DohQuery;
+  labels: Record<ProviderKey, string>;
+  details: Record<ProviderKey, DohProviderResult>;
+  chain: DnssecChainResult;
+  validation: Record<ProviderKey, DnssecProviderVerdict>;
+}
 
-  if (url.pathname === "/api/check" && request.method === "POST") {
-    try {
-      const body = await request.json<{ mode?: string; target?: string }>();
-      const mode = body.mode as Mode | undefined;
-      const target = (body.target ?? "").trim();
+type DnssecDnskeyRecord = {
+  flags: number;
+  protocol: number;
+  algorithm: number;
+  public_key: Uint8Array;
+  rdata: Uint8Array;
+  key_tag: number;
+};
 
-      if (!mode || (mode !== "doh" && mode !== "ech")) {
-        return createErrorResponse("mode 参数必须是 'doh' 或 'ech'", 400);
-      }
+type DnssecDsRecord = {
+  key_tag: number;
+  algorithm: number;
+  digest_type: number;
+  digest: Uint8Array;
+};
 
-      if (!target) {
-        return createErrorResponse("target 参数不能为空", 400);
-      }
+type DnssecRrsigRecord = {
+  type_covered: number;
+  algorithm: number;
+  labels: number;
+  original_ttl: number;
+  expiration: number;
+  inception: number;
+  key_tag: number;
+  signer: string;
+  signature: Uint8Array;
+  signed_prefix: Uint8Array;
+};
 
-      const timeout = resolveTimeout(env.REQUEST_TIMEOUT_MS);
-      const testDomain = env.DEFAULT_TEST_DOMAIN?.trim() || "linux.do";
+type DnssecZoneKeys = {
+  status: "secure" | "insecure" | "bogus";
+  keys: DnssecDnskeyRecord[];
+  note?: string;
+};
 
-      if (mode === "doh") {
-        const result = await runDohCheck(target, testDomain, timeout);
-        return createJsonResponse(result);
-      }
+type DnssecContext = {
+  source: ProviderKey;
+  endpoint: string;
+  mode: DohRequestMode;
+  timeout: number;
+  anchors: DnssecDsRecord[];
+  queries: number;
+  zones: Map<string, Promise<DnssecZoneKeys>>;
+  steps: DnssecZoneStep[];
+};
 
-      const result = await runEchCheck(target, timeout);
-      return createJsonResponse(result);
-    } catch (error) {
-      const message = error instanceof SyntaxError ? "请求体不是有效的 JSON" : "服务器内部错误";
-      const status = error instanceof SyntaxError ? 400 : 500;
-      return createErrorResponse(message, status, error);
-    }
-  }
+type EcsBehaviour = "honouring" | "stripping" | "ignoring" | "unknown";
 
-  return createErrorResponse("未找到对应的路由", 404);
+interface EcsProbeResult extends DohProviderModeResult {
+  subnet: string | null;
+  /** 对首个子网的重复查询，用于区分子网带来的差异与轮询、负载均衡造成的差异。 */
+  repeat?: boolean;
 }
 
-function resolveTimeout(timeoutSetting?: string): number {
-  if (!timeoutSetting) return DEFAULT_TIMEOUT_MS;
-  const parsed = Number(timeoutSetting);
-  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_TIMEOUT_MS;
+interface EcsProviderResult {
+  behaviour: EcsBehaviour;
+  note: string;
+  supported: boolean;
+  answers_vary: boolean;
+  scope_prefixes: number[];
+  probes: EcsProbeResult[];
 }
 
-async function runDohCheck(targetUrl: string, testDomain: string, timeout: number): Promise<DohApiResponse> {
-  const providers: DohProviderConfig[] = [
-    { key: "target", endpoint: targetUrl },
-    { key: "cloudflare", endpoint: CLOUDFLARE_DOH_ENDPOINT },
-    { key: "google", endpoint: GOOGLE_DOH_ENDPOINT },
-  ];
-
-  const fetchPromises = providers.map(({ key, endpoint }) =>
-    fetchDohAnswer(endpoint, testDomain, "A", timeout).then((result) => ({ key, result }))
-  );
-
-  const settled = await Promise.allSettled(fetchPromises);
+interface EcsApiResponse {
+  status: DohStatus;
+  message: string;
+  query: DohQuery;
+  subnets: string[];
+  labels: Record<ProviderKey, string>;
+  providers: Record<ProviderKey, EcsProviderResult>;
+}
 
-  const details = Object.fromEntries(
-    settled.map((entry, index) => {
-      const key = providers[index].key;
-      if (entry.status === "fulfilled") {
-        return [key, entry.value.result];
-      }
-      return [key, {
-        status: null,
-        ok: false,
-        ips: [],
-        latency_ms: null,
-        attempted_formats: [],
-        response_format: "unknown",
-        content_type: null,
-        error: normalizeErrorMessage(entry.reason),
-      } satisfies DohProviderResult];
-    })
-  ) as Record<ProviderKey, DohProviderResult>;
+type PaddingBehaviour = "padded" | "partial" | "unpadded" | "unknown";
 
-  const targetResult = details.target;
-  const cloudflareResult = details.cloudflare;
-  const googleResult = details.google;
+interface PaddingProviderResult {
+  behaviour: PaddingBehaviour;
+  supported: boolean;
+  block_size: number | null;
+  response_lengths: number[];
+  note: string;
+  probes: DohProviderModeResult[];
+}
 
-  const matchesCloudflare = targetResult.ok && cloudflareResult.ok && setsAreEqual(new Set(targetResult.ips), new Set(cloudflareResult.ips));
-  const matchesGoogle = targetResult.ok && googleResult.ok && setsAreEqual(new Set(targetResult.ips), new Set(googleResult.ips));
-  const echComparison = await runDohEchComparison(providers, testDomain, timeout);
+interface PaddingApiResponse {
+  status: DohStatus;
+  message: string;
+  query: { name: string; record_types: string[]; query_block: number };
+  labels: Record<ProviderKey, string>;
+  providers: Record<ProviderKey, PaddingProviderResult>;
+}
 
-  let status: DohStatus = "failure";
-  let message = "目标 DoH 服务未返回有效结果。";
+type NxdomainBehaviour = "intact" | "rewriting" | "inconsistent" | "unknown";
 
-  if (!targetResult.ok) {
-    status = "failure";
-    message = targetResult.error ?? "目标 DoH 服务查询失败。";
-  } else if (matchesCloudflare && matchesGoogle) {
-    status = "success";
-    message = "目标 DoH 服务返回的结果与 Cloudflare 和 Google 完全一致。";
-  } else if (matchesCloudflare || matchesGoogle) {
-    status = "partial_match";
-    message = matchesCloudflare
-      ? "目标 DoH 服务与 Cloudflare 结果一致，但与 Google 不完全一致。"
-      : "目标 DoH 服务与 Google 结果一致，但与 Cloudflare 不完全一致。";
-  } else {
-    status = "failure";
-    message = "目标 DoH 服务返回的结果与 Cloudflare 和 Google 均不一致。";
-  }
+interface NxdomainProbeResult extends DohProviderModeResult {
+  name: string;
+  /** 其他解析器判定为 NXDOMAIN 的名称，目标却返回的地址。 */
+  rewritten: boolean;
+}
 
-  if (echComparison) {
-    if (echComparison.consistent === false) {
-      message += " 检测到目标 DoH 返回的 ECH 配置与权威解析不一致，可能存在篡改。";
-    } else if (echComparison.consistent === true) {
-      message += " 同时确认 ECH 配置与权威解析一致。";
-    }
-  }
+interface NxdomainProviderResult {
+  behaviour: NxdomainBehaviour;
+  supported: boolean;
+  rewritten_ips: string[];
+  note: string;
+  probes: NxdomainProbeResult[];
+}
 
-  return {
-    status,
-    message,
-    details,
-    comparison: {
-      matches_cloudflare: matchesCloudflare,
-      matches_google: matchesGoogle,
-    },
-    ech_comparison: echComparison ?? undefined,
-  };
+interface NxdomainApiResponse {
+  status: DohStatus;
+  message: string;
+  query: { name: string; probes: string[] };
+  labels: Record<ProviderKey, string>;
+  providers: Record<ProviderKey, NxdomainProviderResult>;
 }
 
-type DohEchComparison = {
-  target: EchProviderResult;
-  cloudflare: EchProviderResult;
-  google: EchProviderResult;
-  matches_cloudflare: boolean | null;
-  matches_google: boolean | null;
-  consistent: boolean | null;
-  notes: string[];
+type FilteringCanary = {
+  name: string;
+  category: string;
 };
 
-async function runDohEchComparison(providers: DohProviderConfig[], domain: string, timeout: number): Promise<DohEchComparison | null> {
-  const echProviders = providers.filter((provider) => provider.key === "target" || provider.key === "cloudflare" || provider.key === "google");
-  const fetchPromises = echProviders.map(({ key, endpoint }) =>
-    fetchHttpsRecord(endpoint, domain, timeout).then((result) => ({ key, result }))
-  );
+type FilteringVerdict = "blocked" | "passed" | "unavailable" | "error";
 
-  const settled = await Promise.allSettled(fetchPromises);
-  const echResults = Object.fromEntries(
-    settled.map((entry, index) => {
-      const key = echProviders[index].key;
-      if (entry.status === "fulfilled") {
-        return [key, entry.value.result];
-      }
-      return [key, {
-        found: false,
-        record: undefined,
-        status: null,
-        latency_ms: null,
-        attempted_formats: [],
-        response_format: "unknown",
-        content_type: null,
-        error: normalizeErrorMessage(entry.reason),
-      } satisfies EchProviderResult];
-    })
-  ) as Record<ProviderKey, EchProviderResult>;
+type FilteringBlockMethod = "nxdomain" | "refused" | "null_ip" | "sinkhole";
 
-  const targetResult = echResults.target;
-  const cloudflareResult = echResults.cloudflare;
-  const googleResult = echResults.google;
+interface FilteringProbeResult extends DohProviderModeResult {
+  name: string;
+  category: string;
+  verdict: FilteringVerdict;
+  block_method: FilteringBlockMethod | null;
+}
 
-  if (!targetResult && !cloudflareResult && !googleResult) {
-    return null;
-  }
+type FilteringCategorySummary = {
+  blocked: number;
+  passed: number;
+  total: number;
+};
 
-  const targetEch = extractEchConfigString(targetResult);
-  const cloudflareEch = extractEchConfigString(cloudflareResult);
-  const googleEch = extractEchConfigString(googleResult);
+interface FilteringProviderResult {
+  supported: boolean;
+  blocked_categories: string[];
+  categories: Record<string, FilteringCategorySummary>;
+  note: string;
+  probes: FilteringProbeResult[];
+}
 
-  const notes: string[] = [];
-  const matchesCloudflare = computeEchMatch(targetEch, cloudflareEch, notes, "Cloudflare");
-  const matchesGoogle = computeEchMatch(targetEch, googleEch, notes, "Google");
+interface FilteringApiResponse {
+  status: DohStatus;
+  message: string;
+  query: { domains: FilteringCanary[] };
+  labels: Record<ProviderKey, string>;
+  providers: Record<ProviderKey, FilteringProviderResult>;
+}
 
-  let consistent: boolean | null = null;
-  if (matchesCloudflare !== null && matchesGoogle !== null) {
-    consistent = matchesCloudflare && matchesGoogle;
-  } else if (matchesCloudflare !== null || matchesGoogle !== null) {
-    consistent = matchesCloudflare === false || matchesGoogle === false ? false : null;
-  }
+/** warmup：首次查询，吸收建立连接的耗时；cached：重复查询测试域名；uncached：绕过缓存的随机子域名。 */
+type BenchmarkSeries = "warmup" | "cached" | "uncached";
 
-  return {
-    target: targetResult,
-    cloudflare: cloudflareResult,
-    google: googleResult,
-    matches_cloudflare: matchesCloudflare,
-    matches_google: matchesGoogle,
-    consistent,
-    notes,
-  };
+interface BenchmarkProbeResult extends DohProviderModeResult {
+  name: string;
+  series: BenchmarkSeries;
 }
 
-async function runEchCheck(domain: string, timeout: number): Promise<EchApiResponse> {
-  const providers: Array<{ key: "cloudflare" | "google"; endpoint: string }> = [
-    { key: "cloudflare", endpoint: CLOUDFLARE_DOH_ENDPOINT },
-    { key: "google", endpoint: GOOGLE_DOH_ENDPOINT },
-  ];
+type LatencyStats = {
+  samples: number;
+  errors: number;
+  error_rate: number;
+  min: number | null;
+  p50: number | null;
+  p95: number | null;
+  max: number | null;
+  mean: number | null;
+  jitter: number | null;
+};
 
-  const fetchPromises = providers.map(({ key, endpoint }) =>
-    fetchHttpsRecord(endpoint, domain, timeout).then((result) => ({ key, result }))
-  );
+interface BenchmarkProviderResult {
+  supported: boolean;
+  mode: DohRequestMode | null;
+  warmup_ms: number | null;
+  cached: LatencyStats;
+  uncached: LatencyStats;
+  note: string;
+  probes: BenchmarkProbeResult[];
+}
 
-  const settled = await Promise.allSettled(fetchPromises);
+interface BenchmarkApiResponse {
+  status: DohStatus;
+  message: string;
+  query: { name: string; samples: number };
+  labels: Record<ProviderKey, string>;
+  providers: Record<ProviderKey, BenchmarkProviderResult>;
+}
 
-  const providerResults = Object.fromEntries(
-    settled.map((entry, index) => {
-      const key = providers[index].key;
-      if (entry.status === "fulfilled") {
-        return [key, entry.value.result];
-      }
-      return [key, {
-        found: false,
-        record: undefined,
-        status: null,
-        latency_ms: null,
-        attempted_formats: [],
-        response_format: "unknown",
-        content_type: null,
-        error: normalizeErrorMessage(entry.reason),
-      } satisfies EchProviderResult];
-    })
-  ) as EchApiResponse["providers"];
+type CacheBehaviour = "caching" | "pass_through" | "multiple_caches" | "unknown";
 
-  const echEnabled = Object.values(providerResults).some((provider) => provider.found);
+/** raised：TTL 高于所有参考解析器（设置了最小 TTL）；capped：TTL 低于所有参考解析器（设置了最大 TTL）。 */
+type TtlClamping = "raised" | "capped" | "none" | "unknown";
 
-  const message = echEnabled
-    ? "检测到 HTTPS 记录包含 ECH 参数，推测该域名已启用 ECH。"
-    : "未在权威 DoH 服务的 HTTPS 记录中发现 ECH 参数，可能未启用 ECH。";
+interface CacheProbeResult extends DohProviderModeResult {
+  name: string;
+  /** ttl：重复查询测试名称；cold / warm：对全新随机名称的第一次与第二次查询。 */
+  series: "ttl" | "cold" | "warm";
+  elapsed_ms: number;
+  ttl: number | null;
+}
 
-  return {
-    ech_enabled: echEnabled,
-    message,
-    providers: providerResults,
-  };
+interface CacheProviderResult {
+  supported: boolean;
+  mode: DohRequestMode | null;
+  behaviour: CacheBehaviour;
+  ttls: Array<{ elapsed_ms: number; ttl: number | null }>;
+  ttl_min: number | null;
+  ttl_max: number | null;
+  ttl_resets: number;
+  clamping: TtlClamping;
+  cold_ms: number | null;
+  warm_ms: number | null;
+  note: string;
+  probes: CacheProbeResult[];
 }
 
-async function fetchDohAnswer(endpoint: string, name: string, recordType: string, timeout: number): Promise<DohProviderResult> {
-  const modeResults: DohProviderModeResult[] = [];
+interface CacheApiResponse {
+  status: DohStatus;
+  message: string;
+  query: { name: string; record_type: string; samples: number; interval_ms: number };
+  labels: Record<ProviderKey, string>;
+  providers: Record<ProviderKey, CacheProviderResult>;
+}
 
-  for (const mode of ["json", "wire"] as const) {
-    const result = await performDohRequest(endpoint, name, recordType, timeout, mode);
-    modeResults.push(result);
-  }
+type CheckResult = DohApiResponse | EchApiResponse | DnssecApiResponse | EcsApiResponse | PaddingApiResponse | NxdomainApiResponse | FilteringApiResponse | BenchmarkApiResponse | CacheApiResponse;
 
-  const successful = modeResults.find((item) => item.ok);
-  let summary: DohProviderResult;
+type CheckContext = {
+  timeout: number;
+  references: DohProviderConfig[];
+  // 以下配置只有部分模式使用，首次用到时才读取并解析，配置有误也只影响这些模式。
+  anchors: () => DnssecDsRecord[];
+  asn_prefixes: () => Promise<AsnPrefixEntry[]>;
+  canaries: () => Promise<FilteringCanary[]>;
+  target_policy: () => TargetPolicy;
+};
 
-  if (successful) {
-    summary = summarizeDohModeResult(successful, modeResults);
-  } else {
-    summary = combineDohFailures(modeResults);
-  }
+/** 主机规则精确匹配 URL 主机，写作 `*.example.com` 时匹配其所有子域名；CIDR 规则匹配地址。 */
+type TargetRule =
+  | { type: "host"; host: string; wildcard: boolean }
+  | { type: "cidr"; family: 1 | 2; prefix: number; address: Uint8Array; text: string };
 
-  summary.attempted_formats = modeResults.map((item) => item.mode);
-  summary.mode_results = modeResults;
-  return summary;
-}
+type TargetPolicy = {
+  allowed_ports: number[];
+  allow: TargetRule[];
+  deny: TargetRule[];
+};
 
-async function performDohRequest(endpoint: string, name: string, recordType: string, timeout: number, mode: DohRequestMode): Promise<DohProviderModeResult> {
-  let url: URL;
-  try {
-    url = mode === "json" ? buildDohJsonUrl(endpoint, name, recordType) : buildDohWireUrl(endpoint, name, recordType);
-  } catch (error) {
-    return {
-      mode,
-      status: null,
-      ok: false,
-      ips: [],
-      latency_ms: null,
-      response_format: "unknown",
-      content_type: null,
-      error: normalizeErrorMessage(error),
-    };
-  }
+type TargetValidation = { ok: true; lookups: number } | { ok: false; message: string; lookups: number };
 
-  const headers: HeadersInit = mode === "json"
-    ? { Accept: "application/dns-json" }
-    : { Accept: "application/dns-message" };
+/** 任意长度为 `window_ms` 的滑动窗口内最多允许 `limit` 次检测。 */
+type RateLimitRule = { limit: number; window_ms: number };
 
-  const started = Date.now();
-  try {
-    const response = await fetch(url.toString(), {
-      headers,
-      signal: createTimeoutSignal(timeout),
+type RateLimitCharge = {
+  key: string;
+  scope: "ip" | "target" | "key";
+  subject: string;
+  rule: RateLimitRule;
+  cost: number;
+  track_usage?: boolean;
+};
+
+/** 一次扣减实际写入的记录：滑动窗口中时间戳为 `charged_at` 的 `recorded` 条，以及计入用量的 `tracked` 次。 */
+type RateLimitReceipt = { charged_at: number; recorded: number; tracked: number };
+
+type RateLimitDecision = { allowed: boolean; remaining: number; retry_after_ms: number; usage?: ApiKeyUsage; receipt?: RateLimitReceipt };
+
+/** `quota`、`modes` 与 `origins` 为 null 表示该 Key 不限制对应项。 */
+type ApiKey = {
+  id: string;
+  token_sha256: string;
+  quota: RateLimitRule | null;
+  modes: Mode[] | null;
+  origins: string[] | null;
+  /** 允许读取定时监控列表与历史（其中的目标地址可能含有私有令牌）。 */
+  monitor: boolean;
+};
+
+type ApiKeyUsage = {
+  total: number;
+  rejected: number;
+  first_used_at: string | null;
+  last_used_at: string | null;
+  /** 按 UTC 日期（YYYY-MM-DD）记录的检测次数，最新的在最后，最多保留 API_KEY_USAGE_DAYS 天。 */
+  daily: Record<string, number>;
+};
+
+type ClientAuth = { ok: true; key: ApiKey | null } | { ok: false; response: Response };
+
+type ResultPermalink = {
+  id: string;
+  url: string;
+  api_url: string;
+  expires_at: string;
+};
+
+type StoredCheckResult = {
+  id: string;
+  mode: Mode;
+  target: string;
+  created_at: string;
+  expires_at: string;
+  result: CheckResult;
+};
+
+type CheckResponse = CheckResult & { permalink?: ResultPermalink };
+
+type CheckRequestBody = {
+  mode?: string;
+  target?: string;
+  record_type?: string;
+  name?: string;
+  dual_stack?: boolean;
+  compare?: unknown;
+  subnets?: unknown;
+  samples?: unknown;
+};
+
+type ParsedCheckTask = { ok: true; task: CheckTask } | { ok: false; message: string; errors: ValidationIssue[] };
+
+type ValidationIssue = { field: string; message: string };
+
+type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+/**
+ * OpenAPI 文档使用的 JSON Schema 子集。validateSchema 校验其中的结构与取值约束；
+ * `format`、`allOf`、`default`、`examples` 与 `description` 只用于文档展示。
+ */
+type JsonSchema = {
+  $ref?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: readonly unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  pattern?: string;
+  format?: string;
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  default?: unknown;
+  examples?: unknown[];
+  description?: string;
+  /** 扩展字段：字符串枚举值匹配时忽略大小写与首尾空白。 */
+  "x-case-insensitive"?: boolean;
+};
+
+type CheckTask =
+  | { mode: "doh" | "dnssec"; target: string; query: DohQuery }
+  | { mode: "ecs"; target: string; query: DohQuery; subnets: string[] }
+  | { mode: "padding"; target: string; name: string }
+  | { mode: "nxdomain"; target: string; name: string }
+  | { mode: "filtering"; target: string }
+  | { mode: "benchmark"; target: string; name: string; samples: number }
+  | { mode: "cache"; target: string; query: DohQuery }
+  | { mode: "ech"; target: string };
+
+type CheckStage = "doh" | "ech" | "ecs";
+
+type CheckProgressEvent =
+  | { type: "attempt"; stage: CheckStage; provider: ProviderKey; record_type?: string; name?: string; mode: DohRequestMode; subnet?: string | null; result: DohProviderModeResult | EchProviderModeResult }
+  | { type: "provider"; stage: CheckStage; provider: ProviderKey; result: DohProviderResult | EchProviderResult };
+
+type ProgressReporter = (event: CheckProgressEvent) => void;
+
+type StreamFormat = "sse" | "ndjson";
+
+type CheckStreamEvent =
+  | { type: "start"; mode: Mode; target: string; labels: Record<ProviderKey, string> }
+  | CheckProgressEvent
+  | { type: "result"; result: CheckResponse }
+  | { type: "error"; message: string };
+
+type BatchSummary = {
+  type: "summary";
+  total: number;
+  completed: number;
+  failed: number;
+  skipped: number;
+  doh_status: Partial<Record<DohStatus, number>>;
+  ech_enabled: number;
+  subrequests_used: number;
+  duration_ms: number;
+};
+
+type WatchTask = { mode: "doh"; target: string; query: DohQuery } | { mode: "ech"; target: string };
+
+type WatchItem = { id: string; task: WatchTask };
+
+type AlertWebhookType = "json" | "slack" | "telegram";
+
+type AlertWebhook = { type: AlertWebhookType; url: string; chat_id?: string };
+
+type MonitorChangeField = "status" | "ech_enabled" | "ech_consistent";
+
+type MonitorChange = {
+  field: MonitorChangeField;
+  previous: DohStatus | boolean | null;
+  current: DohStatus | boolean | null;
+};
+
+/** 监控项的一次定时检测；本次未能确定的字段省略。 */
+type MonitorSnapshot = {
+  checked_at: string;
+  status?: DohStatus;
+  ech_enabled?: boolean;
+  ech_consistent?: boolean | null;
+  message: string;
+  failed?: boolean;
+  skipped?: boolean;
+  changes?: MonitorChange[];
+  alerts_delivered?: number;
+};
+
+type MonitorRecord = {
+  id: string;
+  mode: WatchTask["mode"];
+  target: string;
+  history: MonitorSnapshot[];
+};
+
+type MonitorAlert = {
+  id: string;
+  mode: WatchTask["mode"];
+  target: string;
+  checked_at: string;
+  changes: MonitorChange[];
+  message: string;
+};
+
+type BatchLine =
+  | { type: "result"; index: number; mode?: string; target?: string; result: CheckResult }
+  | { type: "error" | "skipped"; index: number; mode?: string; target?: string; message: string; errors?: ValidationIssue[] }
+  | BatchSummary;
+
+type DohProviderEndpoints = {
+  json?: string;
+  rfc8484?: string;
+};
+
+type DohProviderConfig = {
+  key: ProviderKey;
+  label: string;
+  endpoints: DohProviderEndpoints;
+  formats: DohRequestMode[];
+};
+
+type DohRequestMode = "json" | "wire" | "post";
+
+type DohHttpRequest = {
+  url: URL;
+  init: RequestInit;
+};
+
+const TARGET_PROVIDER_KEY = "target";
+const RESOLVERS_KV_KEY = "reference_resolvers";
+const ASN_PREFIXES_KV_KEY = "asn_prefixes";
+const ANSWER_COMPARE_MODES: readonly AnswerCompareMode[] = ["exact", "cdn"];
+/** CDN 感知比对中视为一致的最低相似度。 */
+const CDN_SIMILARITY_THRESHOLD = 0.6;
+const CDN_SIMILARITY_WEIGHTS = { exact: 1, same_prefix: 0.8, same_asn: 0.6, unrelated: 0 } as const;
+// 主流 CDN 公布的地址段，可通过 ASN_PREFIXES 或 KV 键 asn_prefixes 补充、覆盖。
+const BUNDLED_ASN_PREFIXES: readonly AsnPrefixGroup[] = [
+  {
+    asn: 13335,
+    name: "Cloudflare",
+    prefixes: [
+      "104.16.0.0/13", "104.24.0.0/14", "172.64.0.0/13", "162.158.0.0/15", "188.114.96.0/20", "190.93.240.0/20",
+      "198.41.128.0/17", "141.101.64.0/18", "108.162.192.0/18", "2606:4700::/32", "2803:f800::/32", "2a06:98c0::/29", "2400:cb00::/32",
+    ],
+  },
+  {
+    asn: 20940,
+    name: "Akamai",
+    prefixes: ["23.32.0.0/11", "23.192.0.0/11", "2.16.0.0/13", "184.24.0.0/13", "104.64.0.0/10", "2600:1400::/24"],
+  },
+  {
+    asn: 54113,
+    name: "Fastly",
+    prefixes: ["151.101.0.0/16", "146.75.0.0/17", "199.232.0.0/16", "2a04:4e40::/32", "2a04:4e42::/32"],
+  },
+  {
+    asn: 16509,
+    name: "Amazon CloudFront",
+    prefixes: ["13.32.0.0/15", "13.224.0.0/14", "18.64.0.0/14", "54.230.0.0/16", "54.239.128.0/18", "99.84.0.0/16", "205.251.192.0/19", "2600:9000::/28"],
+  },
+  {
+    asn: 15169,
+    name: "Google",
+    prefixes: ["142.250.0.0/15", "172.217.0.0/16", "216.58.192.0/19", "74.125.0.0/16", "2607:f8b0::/32", "2a00:1450::/32", "2404:6800::/32"],
+  },
+];
+const DEFAULT_REFERENCE_RESOLVERS: readonly DohProviderConfig[] = [
+  {
+    key: "cloudflare",
+    label: "Cloudflare",
+    endpoints: { json: "https://cloudflare-dns.com/dns-query", rfc8484: "https://cloudflare-dns.com/dns-query" },
+    formats: ["json", "wire", "post"],
+  },
+  {
+    key: "google",
+    label: "Google",
+    endpoints: { json: "https://dns.google/resolve", rfc8484: "https://dns.google/dns-query" },
+    formats: ["json", "wire", "post"],
+  },
+];
+const HTTPS_RECORD_TYPE = 65;
+const OPT_RECORD_TYPE = 41;
+const EDNS_CLIENT_SUBNET_OPTION = 8;
+const EDNS_PADDING_OPTION = 12;
+const DS_RECORD_TYPE = 43;
+const RRSIG_RECORD_TYPE = 46;
+const DNSKEY_RECORD_TYPE = 48;
+const DNS_RCODE_NAMES: Record<number, string> = {
+  0: "NOERROR",
+  1: "FORMERR",
+  2: "SERVFAIL",
+  3: "NXDOMAIN",
+  4: "NOTIMP",
+  5: "REFUSED",
+  6: "YXDOMAIN",
+  7: "YXRRSET",
+  8: "NXRRSET",
+  9: "NOTAUTH",
+  10: "NOTZONE",
+  16: "BADVERS",
+};
+const DNS_RECORD_TYPES: Record<string, number> = {
+  A: 1,
+  NS: 2,
+  CNAME: 5,
+  SOA: 6,
+  PTR: 12,
+  MX: 15,
+  TXT: 16,
+  AAAA: 28,
+  SRV: 33,
+  OPT: OPT_RECORD_TYPE,
+  DS: DS_RECORD_TYPE,
+  RRSIG: RRSIG_RECORD_TYPE,
+  NSEC: 47,
+  DNSKEY: DNSKEY_RECORD_TYPE,
+  NSEC3: 50,
+  SVCB: 64,
+  HTTPS: HTTPS_RECORD_TYPE,
+  CAA: 257,
+};
+const CHECK_MODES: readonly Mode[] = ["doh", "ech", "dnssec", "ecs", "padding", "nxdomain", "filtering", "benchmark", "cache"];
+const CHECK_RECORD_TYPES: readonly string[] = ["A", "AAAA", "CNAME", "MX", "TXT", "NS", "SOA", "CAA"];
+const DUAL_STACK_RECORD_TYPES: readonly string[] = ["A", "AAAA"];
+const SVC_PARAM_KEYS: Record<number, string> = {
+  0: "mandatory",
+  1: "alpn",
+  2: "no-default-alpn",
+  3: "port",
+  4: "ipv4hint",
+  5: "ech",
+  6: "ipv6hint",
+  7: "dohpath",
+};
+const ECH_CONFIG_VERSION = 0xfe0d;
+const HPKE_KEMS: Record<number, { name: string; publicKeyLength: number }> = {
+  0x0010: { name: "DHKEM(P-256, HKDF-SHA256)", publicKeyLength: 65 },
+  0x0011: { name: "DHKEM(P-384, HKDF-SHA384)", publicKeyLength: 97 },
+  0x0012: { name: "DHKEM(P-521, HKDF-SHA512)", publicKeyLength: 133 },
+  0x0020: { name: "DHKEM(X25519, HKDF-SHA256)", publicKeyLength: 32 },
+  0x0021: { name: "DHKEM(X448, HKDF-SHA512)", publicKeyLength: 56 },
+};
+const HPKE_KDFS: Record<number, string> = {
+  0x0001: "HKDF-SHA256",
+  0x0002: "HKDF-SHA384",
+  0x0003: "HKDF-SHA512",
+};
+const HPKE_AEADS: Record<number, string> = {
+  0x0001: "AES-128-GCM",
+  0x0002: "AES-256-GCM",
+  0x0003: "ChaCha20Poly1305",
+  0xffff: "Export-only",
+};
+const DNSSEC_ALGORITHMS: Record<number, string> = {
+  5: "RSASHA1",
+  7: "RSASHA1-NSEC3-SHA1",
+  8: "RSASHA256",
+  10: "RSASHA512",
+  13: "ECDSAP256SHA256",
+  14: "ECDSAP384SHA384",
+  15: "ED25519",
+  16: "ED448",
+};
+// WebCrypto 能够校验的签名算法；Ed448 等其他算法签名的区按未签名处理。
+const SUPPORTED_DNSSEC_ALGORITHMS: ReadonlySet<number> = new Set([5, 7, 8, 10, 13, 14, 15]);
+const DS_DIGEST_ALGORITHMS: Record<number, string> = {
+  1: "SHA-1",
+  2: "SHA-256",
+  4: "SHA-384",
+};
+// 根区 KSK-2017 与 KSK-2024 的 DS 记录（IANA root-anchors.xml）。
+const DEFAULT_TRUST_ANCHORS: readonly string[] = [
+  "20326 8 2 E06D44B80B8F1D39A95C0B0D7C65D08458E880409BBC683457104237C7F8EC8D",
+  "38696 8 2 683D2D0ACB8C9B712A1948B27F741219298D0A450D612C483AF444A4C0FB2B16",
+];
+const DNSSEC_BEHAVIOUR_LABELS: Record<DnssecBehaviour, string> = {
+  validating: "执行验证",
+  non_validating: "未验证",
+  stripping: "剥离签名",
+  unsigned: "域名未签名",
+  unknown: "无法判断",
+};
+// 默认探测两个不同地区的 /24：亚太（APNIC）与北美（ARIN）。
+const ECS_PROBE_SUBNETS: readonly string[] = ["1.2.4.0/24", "12.0.0.0/24"];
+const MAX_ECS_PROBE_SUBNETS = 4;
+const ECS_BEHAVIOUR_LABELS: Record<EcsBehaviour, string> = {
+  honouring: "遵循 ECS",
+  stripping: "剥离 ECS",
+  ignoring: "忽略 ECS",
+  unknown: "无法判断",
+};
+// RFC 8467 §4.1：查询按 128 字节块填充，响应建议按 468 字节块填充。
+const PADDING_QUERY_BLOCK = 128;
+const RECOMMENDED_RESPONSE_PADDING_BLOCK = 468;
+const PADDING_BLOCK_CANDIDATES: readonly number[] = [468, 256, 128, 64, 32, 16];
+// 不同记录类型的应答长度不同，便于推断填充块大小。
+const PADDING_PROBE_RECORD_TYPES: readonly string[] = ["A", "AAAA", "TXT"];
+const PADDING_BEHAVIOUR_LABELS: Record<PaddingBehaviour, string> = {
+  padded: "已填充",
+  partial: "部分填充",
+  unpadded: "未填充",
+  unknown: "无法判断",
+};
+// RFC 6761 保留了这些顶级域，诚实的解析器不会为其下的名称返回地址。
+const NXDOMAIN_RESERVED_SUFFIXES = ["invalid", "test"];
+const NXDOMAIN_PROBES_PER_DOMAIN = 2;
+const NXDOMAIN_BEHAVIOUR_LABELS: Record<NxdomainBehaviour, string> = {
+  intact: "如实返回 NXDOMAIN",
+  rewriting: "改写 NXDOMAIN",
+  inconsistent: "部分未返回 NXDOMAIN",
+  unknown: "无法判断",
+};
+const FILTERING_CANARIES_KV_KEY = "filtering_canaries";
+const MAX_FILTERING_CANARIES = 16;
+const BUNDLED_FILTERING_CANARIES: readonly FilteringCanary[] = [
+  { name: "doubleclick.net", category: "ads" },
+  { name: "googlesyndication.com", category: "ads" },
+  { name: "google-analytics.com", category: "tracker" },
+  { name: "hotjar.com", category: "tracker" },
+  // OpenDNS 与 WICAR 提供的公开测试域名，本身无害，但会被安全类过滤器拦截。
+  { name: "internetbadguys.com", category: "malware" },
+  { name: "malware.wicar.org", category: "malware" },
+  { name: "pornhub.com", category: "adult" },
+  { name: "xvideos.com", category: "adult" },
+];
+const FILTERING_CATEGORY_LABELS: Record<string, string> = {
+  ads: "广告",
+  tracker: "跟踪器",
+  malware: "恶意软件测试",
+  adult: "成人内容",
+};
+// 常见拦截页地址：本地回环以及 OpenDNS 的拦截页。
+const FILTERING_SINKHOLE_ADDRESSES = new Set([
+  "127.0.0.1",
+  "::1",
+  "146.112.61.104",
+  "146.112.61.105",
+  "146.112.61.106",
+  "146.112.61.107",
+  "146.112.61.108",
+  "146.112.61.110",
+]);
+const DEFAULT_BENCHMARK_SAMPLES = 5;
+// 默认 3 个解析器 ×（1 次预热 + 2 × 7 次）= 45 次子请求；参考解析器更多时 /api/check 按实际配额进一步限制。
+const MAX_BENCHMARK_SAMPLES = 7;
+// 约 3 秒内查询 4 次，足以观察到以秒为单位递减的 TTL。
+const CACHE_TTL_SAMPLES = 4;
+const CACHE_PROBE_INTERVAL_MS = 1000;
+// 热查询至少快一半且快出该毫秒数，才视为命中缓存，避免把网络抖动当作缓存。
+const CACHE_WARM_MARGIN_MS = 10;
+const CACHE_BEHAVIOUR_LABELS: Record<CacheBehaviour, string> = {
+  caching: "存在缓存",
+  pass_through: "疑似直通上游",
+  multiple_caches: "多个后端缓存",
+  unknown: "无法判断",
+};
+const TTL_CLAMPING_LABELS: Record<TtlClamping, string> = {
+  raised: "抬高 TTL（最小 TTL 限制）",
+  capped: "压低 TTL（最大 TTL 限制）",
+  none: "未发现 TTL 限制",
+  unknown: "无法判断",
+};
+const DOH_REQUEST_MODES: readonly DohRequestMode[] = ["json", "wire", "post"];
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_BATCH_CONCURRENCY = 4;
+const DEFAULT_BATCH_MAX_ITEMS = 100;
+const DEFAULT_SUBREQUEST_LIMIT = 50;
+const RESULT_KV_PREFIX = "result:";
+const RESULT_ID_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const RESULT_ID_LENGTH = 10;
+const RESULT_ID_PATTERN = /^[0-9A-Za-z]{10}$/;
+const DEFAULT_RESULT_RETENTION_DAYS = 30;
+/** DoH 目标不允许指向的地址段，无论以 IP 字面量给出还是经 DNS 解析得到。 */
+const BLOCKED_TARGET_RANGES: ReadonlyArray<{ cidr: string; label: string }> = [
+  { cidr: "0.0.0.0/8", label: "保留地址" },
+  { cidr: "10.0.0.0/8", label: "私有地址" },
+  { cidr: "100.64.0.0/10", label: "运营商级 NAT 地址" },
+  { cidr: "127.0.0.0/8", label: "回环地址" },
+  { cidr: "169.254.0.0/16", label: "链路本地地址" },
+  { cidr: "172.16.0.0/12", label: "私有地址" },
+  { cidr: "192.0.0.0/24", label: "保留地址" },
+  { cidr: "192.168.0.0/16", label: "私有地址" },
+  { cidr: "198.18.0.0/15", label: "保留地址" },
+  { cidr: "224.0.0.0/4", label: "组播地址" },
+  { cidr: "240.0.0.0/4", label: "保留地址" },
+  { cidr: "::/128", label: "未指定地址" },
+  { cidr: "::1/128", label: "回环地址" },
+  { cidr: "fc00::/7", label: "私有地址" },
+  { cidr: "fe80::/10", label: "链路本地地址" },
+  { cidr: "ff00::/8", label: "组播地址" },
+];
+const DEFAULT_TARGET_PORT = 443;
+const TARGET_VALIDATION_RECORD_TYPES: readonly string[] = ["A", "AAAA"];
+const JSON_SCHEMA_TYPE_LABELS: Record<JsonSchemaType, string> = {
+  string: "字符串",
+  number: "数字",
+  integer: "整数",
+  boolean: "布尔值",
+  object: "对象",
+  array: "数组",
+  null: "null",
+};
+const DEFAULT_RATE_LIMIT_PER_IP = "20/60";
+const DEFAULT_RATE_LIMIT_PER_TARGET = "60/60";
+const DEFAULT_RATE_LIMIT_PER_KEY = "120/60";
+const API_KEYS_KV_KEY = "api_keys";
+const API_KEY_USAGE_DAYS = 30;
+const WATCH_LIST_KV_KEY = "watch_list";
+const MONITOR_KV_PREFIX = "monitor:";
+const DEFAULT_MONITOR_HISTORY_LIMIT = 100;
+const ALERT_WEBHOOK_TYPES: readonly AlertWebhookType[] = ["json", "slack", "telegram"];
+const DOH_STATUS_LABELS: Record<DohStatus, string> = {
+  success: "校验通过",
+  partial_match: "部分匹配",
+  failure: "结果不一致",
+  resolver_error: "解析器错误",
+  empty_answer: "无记录",
+};
+const TEXT_HEADERS = { "Content-Type": "text/html; charset=utf-8" };
+const JSON_HEADERS = { "Content-Type": "application/json; charset=utf-8" };
+const NDJSON_HEADERS = { "Content-Type": "application/x-ndjson; charset=utf-8" };
+const SSE_HEADERS = { "Content-Type": "text/event-stream; charset=utf-8", "Cache-Control": "no-cache" };
+
+/** 环境变量或 KV 中的配置无效；消息指明具体的配置项，原样返回给调用方以便排查。 */
+class ConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigurationError";
+  }
+}
+
+/**
+ * 滑动窗口计数器，`ip:<地址>`、`key:<Key ID>` 与 `target:<主机>` 各占一个实例。Worker 请求它扣减若干次检测，
+ * 并以 {@link RateLimitDecision} 应答；携带 `refund` 时撤销此前那次扣减写入的记录。
+ */
+export class RateLimiter implements DurableObject {
+  constructor(private readonly state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { charge, refund } = await request.json<{ charge: RateLimitCharge; refund?: RateLimitReceipt }>();
+    const { rule, cost } = charge;
+    const now = Date.now();
+    const stored = await this.state.storage.get<number[]>("hits") ?? [];
+    const hits = stored.filter((time) => time > now - rule.window_ms);
+    const usage = charge.track_usage ? await this.state.storage.get<ApiKeyUsage>("usage") ?? createEmptyUsage() : undefined;
+
+    if (refund) {
+      // 只移除该次扣减写入的记录；同一时间戳的记录互相等价，移除其中任意 recorded 条即可，不会多删其他请求的记录。
+      let pending = refund.recorded;
+      const kept = hits.filter((time) => {
+        if (pending > 0 && time === refund.charged_at) {
+          pending -= 1;
+          return false;
+        }
+        return true;
+      });
+      await this.state.storage.put("hits", kept);
+      if (usage && refund.tracked > 0) {
+        revokeUsage(usage, refund.tracked, new Date(now));
+        await this.state.storage.put("usage", usage);
+      }
+      return Response.json(describeRateLimitWindow({ ...charge, cost: 0 }, kept, now, usage));
+    }
+
+    // 只读取用量（cost 为 0）时不改动任何记录。
+    const decision = describeRateLimitWindow(charge, hits, now, usage);
+    if (cost === 0) {
+      return Response.json(decision);
+    }
+    if (!decision.allowed) {
+      if (usage) {
+        usage.rejected += cost;
+        await this.state.storage.put("usage", usage);
+      }
+      return Response.json(decision);
+    }
+
+    const recorded = rule.limit > 0 ? cost : 0;
+    if (recorded > 0) {
+      hits.push(...Array.from({ length: recorded }, () => now));
+      await this.state.storage.put("hits", hits);
+      // 窗口内不再有请求时清空计数，避免为每个曾经出现的 IP 长期保留数据。
+      await this.state.storage.setAlarm(now + rule.window_ms);
+    }
+    if (usage) {
+      recordUsage(usage, cost, new Date(now));
+      await this.state.storage.put("usage", usage);
+    }
+    const receipt: RateLimitReceipt = { charged_at: now, recorded, tracked: usage ? cost : 0 };
+    return Response.json({ ...describeRateLimitWindow({ ...charge, cost: 0 }, hits, now, usage), receipt });
+  }
+
+  async alarm(): Promise<void> {
+    // API Key 的累计用量需要长期保留，只清理滑动窗口。
+    if (await this.state.storage.get("usage")) {
+      await this.state.storage.delete("hits");
+    } else {
+      await this.state.storage.deleteAll();
+    }
+  }
+}
+
+export default {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    return handleRequest(request, env, ctx);
+  },
+  async scheduled(_controller: ScheduledController, env: Env): Promise<void> {
+    await runScheduledMonitor(env);
+  },
+};
+
+async function handleRequest(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+  const url = new URL(request.url);
+
+  if (request.method === "OPTIONS") {
+    return withCors(new Response(null, { status: 204 }));
+  }
+
+  if ((url.pathname === "/" || url.pathname.startsWith("/r/")) && request.method === "GET") {
+    return withCors(new Response(HTML_PAGE, { headers: TEXT_HEADERS }));
+  }
+
+  if (!url.pathname.startsWith("/api/")) {
+    return createErrorResponse("未找到对应的路由", 404);
+  }
+
+  // 所有接口统一认证：ALLOW_ANONYMOUS 为 false 时读取结果与接口文档同样需要 API Key。
+  let auth: ClientAuth;
+  try {
+    auth = await authenticateRequest(request, env);
+  } catch (error) {
+    return createServerErrorResponse(error);
+  }
+  if (!auth.ok) return auth.response;
+  const response = await handleApiRequest(request, url, env, ctx, auth.key);
+  return auth.key ? withKeyCors(response, request.headers.get("Origin"), auth.key) : response;
+}
+
+async function handleApiRequest(request: Request, url: URL, env: Env, ctx: ExecutionContext, apiKey: ApiKey | null): Promise<Response> {
+  if (url.pathname.startsWith("/api/results/") && request.method === "GET") {
+    try {
+      // 读取结果不计入 API Key 用量，但与检测共用客户端限额，避免被用来批量枚举结果。
+      const limited = await enforceRateLimits(env, [{ ...createClientRateLimitCharge(request, env, apiKey, 1), track_usage: false }]);
+      if (limited) return limited;
+      return await handleResultRequest(url.pathname.slice("/api/results/".length), env);
+    } catch (error) {
+      return createServerErrorResponse(error);
+    }
+  }
+
+  if (url.pathname === "/api/check" && request.method === "POST") {
+    try {
+      const body = await request.json<CheckRequestBody>();
+      const issues = validateSchema(body, OPENAPI_SCHEMAS.CheckRequest);
+      if (issues.length > 0) {
+        return createValidationErrorResponse(issues);
+      }
+      const testDomain = env.DEFAULT_TEST_DOMAIN?.trim() || "linux.do";
+      const parsed = parseCheckTask(body, testDomain);
+      if (!parsed.ok) {
+        return createValidationErrorResponse(parsed.errors);
+      }
+      if (apiKey?.modes && !apiKey.modes.includes(parsed.task.mode)) {
+        return createErrorResponse(`API Key ${apiKey.id} 不允许使用 ${parsed.task.mode} 模式`, 403);
+      }
+
+      const context = await loadCheckContext(env);
+      const validation = await validateCheckTarget(parsed.task, context);
+      if (!validation.ok) {
+        return createErrorResponse(validation.message, 400);
+      }
+      // 参考解析器可配置，预计的子请求数超过单次调用的配额（扣除限流与目标校验已占用的部分）时直接拒绝。
+      const charges = [createClientRateLimitCharge(request, env, apiKey, 1), createTargetRateLimitCharge(parsed.task, env, 1)];
+      const available = resolvePositiveInteger(env.SUBREQUEST_LIMIT, DEFAULT_SUBREQUEST_LIMIT) - validation.lookups - countRateLimitCalls(env, charges);
+      const required = await estimateTaskSubrequests(parsed.task, context);
+      if (required > available) {
+        if (parsed.task.mode === "benchmark") {
+          const providers = context.references.length + 1;
+          const maxSamples = Math.max(Math.floor((Math.floor(available / providers) - 1) / 2), 0);
+          return createValidationErrorResponse([{ field: "samples", message: `在 ${providers} 个解析器下最多为 ${maxSamples}（预计需要 ${required} 次子请求，可用 ${available} 次）` }]);
+        }
+        return createErrorResponse(`该检测预计需要 ${required} 次子请求，超过单次调用可用的 ${available} 次，请减少参考解析器或调高 SUBREQUEST_LIMIT。`, 400);
+      }
+
+      // 通过全部校验后才扣减限额，被拒绝的请求不消耗配额。
+      const limited = await enforceRateLimits(env, charges);
+      if (limited) return limited;
+
+      const streamFormat = resolveStreamFormat(request.headers.get("Accept"));
+      if (streamFormat) {
+        return handleCheckStream(parsed.task, context, streamFormat, ctx, (result) => storeCheckResult(env, url.origin, parsed.task, result));
+      }
+
+      const result = await runCheckTask(parsed.task, context);
+      const permalink = await storeCheckResult(env, url.origin, parsed.task, result);
+      return createJsonResponse(withPermalink(result, permalink));
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        return createErrorResponse("请求体不是有效的 JSON", 400, error);
+      }
+      return createServerErrorResponse(error);
+    }
+  }
+
+  if (url.pathname === "/api/openapi.json" && request.method === "GET") {
+    return createJsonResponse({ ...OPENAPI_DOCUMENT, servers: [{ url: url.origin }] });
+  }
+
+  if (url.pathname === "/api/usage" && request.method === "GET") {
+    try {
+      return await handleUsageRequest(env, apiKey);
+    } catch (error) {
+      return createServerErrorResponse(error);
+    }
+  }
+
+  if (url.pathname === "/api/monitor" && request.method === "GET") {
+    try {
+      return await handleMonitorRequest(env, apiKey);
+    } catch (error) {
+      return createServerErrorResponse(error);
+    }
+  }
+
+  if (url.pathname === "/api/batch" && request.method === "POST") {
+    try {
+      const body = await request.json<{ items?: unknown; concurrency?: unknown }>();
+      return await handleBatchRequest(body, env, ctx, request, apiKey);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        return createErrorResponse("请求体不是有效的 JSON", 400, error);
+      }
+      return createServerErrorResponse(error);
+    }
+  }
+
+  return createErrorResponse("未找到对应的路由", 404);
+}
+
+function parseCheckTask(body: CheckRequestBody, testDomain: string): ParsedCheckTask {
+  if (!body || typeof body !== "object") {
+    return { ok: false, message: "请求体必须是 JSON 对象", errors: [{ field: "请求体", message: "必须是对象" }] };
+  }
+
+  const mode = body.mode as Mode | undefined;
+  const target = typeof body.target === "string" ? body.target.trim() : "";
+
+  if (!mode || !CHECK_MODES.includes(mode)) {
+    return invalidCheckField("mode", `必须是 ${CHECK_MODES.map((item) => `'${item}'`).join("、")} 之一`);
+  }
+
+  if (!target) {
+    return invalidCheckField("target", "不能为空");
+  }
+
+  const recordType = (typeof body.record_type === "string" ? body.record_type : "A").trim().toUpperCase();
+  if (!CHECK_RECORD_TYPES.includes(recordType)) {
+    return invalidCheckField("record_type", `必须是 ${CHECK_RECORD_TYPES.join("、")} 之一`);
+  }
+
+  if (mode === "ech" || mode === "filtering") {
+    return { ok: true, task: { mode, target } };
+  }
+
+  const name = typeof body.name === "string" && body.name.trim() ? normalizeDomain(body.name) : testDomain;
+  if (mode === "dnssec" || mode === "cache") {
+    return { ok: true, task: { mode, target, query: { name, record_type: recordType } } };
+  }
+
+  if (mode === "padding" || mode === "nxdomain") {
+    return { ok: true, task: { mode, target, name } };
+  }
+
+  if (mode === "benchmark") {
+    const samples = body.samples === undefined ? DEFAULT_BENCHMARK_SAMPLES : body.samples;
+    if (typeof samples !== "number" || !Number.isInteger(samples) || samples < 1 || samples > MAX_BENCHMARK_SAMPLES) {
+      return invalidCheckField("samples", `必须是 1～${MAX_BENCHMARK_SAMPLES} 之间的整数`);
+    }
+    return { ok: true, task: { mode, target, name, samples } };
+  }
+
+  if (mode === "ecs") {
+    const requested = body.subnets === undefined ? ECS_PROBE_SUBNETS : body.subnets;
+    if (!Array.isArray(requested) || requested.length === 0 || requested.length > MAX_ECS_PROBE_SUBNETS) {
+      return invalidCheckField("subnets", `必须是 1～${MAX_ECS_PROBE_SUBNETS} 个 CIDR 组成的数组`);
+    }
+    const subnets: string[] = [];
+    for (const [index, value] of requested.entries()) {
+      const subnet = typeof value === "string" ? parseClientSubnet(value) : null;
+      if (!subnet) {
+        return invalidCheckField(`subnets[${index}]`, `${String(value)} 不是有效的 CIDR`);
+      }
+      subnets.push(subnet.text);
+    }
+    return { ok: true, task: { mode, target, query: { name, record_type: recordType }, subnets } };
+  }
+
+  const compare = body.compare === undefined ? "exact" : body.compare;
+  if (!ANSWER_COMPARE_MODES.includes(compare as AnswerCompareMode)) {
+    return invalidCheckField("compare", `必须是 ${ANSWER_COMPARE_MODES.map((item) => `'${item}'`).join("、")} 之一`);
+  }
+  const query: DohQuery = body.dual_stack === true
+    ? { name, record_type: "A", dual_stack: true, compare: compare as AnswerCompareMode }
+    : { name, record_type: recordType, compare: compare as AnswerCompareMode };
+  return { ok: true, task: { mode, target, query } };
+}
+
+function invalidCheckField(field: string, message: string): ParsedCheckTask {
+  return { ok: false, message: `${field} 参数${message}`, errors: [{ field, message }] };
+}
+
+/**
+ * 按 {@link OPENAPI_SCHEMAS} 中的 Schema 校验请求体，每个出错的字段返回一条问题，
+ * 例如 `{ field: "items[2].mode", message: "为必填字段" }`。
+ */
+function validateSchema(value: unknown, schema: JsonSchema, path = ""): ValidationIssue[] {
+  if (schema.$ref) {
+    return validateSchema(value, OPENAPI_SCHEMAS[schema.$ref.slice("#/components/schemas/".length)], path);
+  }
+  const issue = (message: string): ValidationIssue[] => [{ field: path || "请求体", message }];
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter((branch) => validateSchema(value, branch, path).length === 0).length;
+    if (matches !== 1) {
+      return issue(matches === 0 ? "不符合任何一种允许的结构" : "同时符合多种结构，无法确定类型");
+    }
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesSchemaType(value, type))) {
+      return issue(`必须是${types.map((type) => JSON_SCHEMA_TYPE_LABELS[type]).join("或")}`);
+    }
+  }
+  if (schema.const !== undefined && value !== schema.const) {
+    return issue(`必须是 '${String(schema.const)}'`);
+  }
+  if (schema.enum) {
+    const caseInsensitive = schema["x-case-insensitive"] === true && typeof value === "string";
+    const matched = schema.enum.some((item) =>
+      caseInsensitive && typeof item === "string" ? item.toUpperCase() === (value as string).trim().toUpperCase() : item === value);
+    if (!matched) {
+      return issue(`必须是 ${schema.enum.map((item) => `'${String(item)}'`).join("、")} 之一`);
+    }
+  }
+  if (typeof value === "string" && schema.minLength !== undefined && value.length < schema.minLength) {
+    return issue(schema.minLength === 1 ? "不能为空" : `长度不能少于 ${schema.minLength}`);
+  }
+  if (typeof value === "string" && schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) {
+    return issue(`格式不正确，须匹配 ${schema.pattern}`);
+  }
+  if (typeof value === "number") {
+    const { minimum, maximum } = schema;
+    if ((minimum !== undefined && value < minimum) || (maximum !== undefined && value > maximum)) {
+      return issue(minimum !== undefined && maximum !== undefined
+        ? `必须在 ${minimum}～${maximum} 之间`
+        : minimum !== undefined ? `不能小于 ${minimum}` : `不能大于 ${maximum}`);
+    }
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return issue(`至少需要 ${schema.minItems} 项`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      return issue(`最多允许 ${schema.maxItems} 项`);
+    }
+    const items = schema.items;
+    return items ? value.flatMap((item, index) => validateSchema(item, items, `${path}[${index}]`)) : [];
+  }
+  if (matchesSchemaType(value, "object")) {
+    const record = value as Record<string, unknown>;
+    const fieldPath = (key: string) => (path ? `${path}.${key}` : key);
+    const missing = (schema.required ?? [])
+      .filter((key) => record[key] === undefined)
+      .map((key) => ({ field: fieldPath(key), message: "为必填字段" }));
+    const nested = Object.entries(schema.properties ?? {})
+      .flatMap(([key, child]) => (record[key] === undefined ? [] : validateSchema(record[key], child, fieldPath(key))));
+    const additional = schema.additionalProperties;
+    const extra = additional === undefined || additional === true
+      ? []
+      : Object.keys(record)
+        .filter((key) => !(schema.properties && Object.hasOwn(schema.properties, key)) && record[key] !== undefined)
+        .flatMap((key) => (additional === false
+          ? [{ field: fieldPath(key), message: "不是允许的字段" }]
+          : validateSchema(record[key], additional, fieldPath(key))));
+    return [...missing, ...nested, ...extra];
+  }
+  return [];
+}
+
+function matchesSchemaType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "null":
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function createValidationErrorResponse(errors: ValidationIssue[]): Response {
+  const message = `请求体校验失败：${errors.map(({ field, message }) => `${field} ${message}`).join("；")}`;
+  return createJsonResponse({ status: "error", message, errors }, { status: 400 });
+}
+
+async function loadCheckContext(env: Env): Promise<CheckContext> {
+  return {
+    timeout: resolveTimeout(env.REQUEST_TIMEOUT_MS),
+    references: await loadReferenceResolvers(env),
+    anchors: once(() => parseTrustAnchors(env.DNSSEC_TRUST_ANCHORS)),
+    asn_prefixes: once(() => loadAsnPrefixes(env)),
+    canaries: once(() => loadFilteringCanaries(env)),
+    target_policy: once(() => parseTargetPolicy(env)),
+  };
+}
+
+function once<T>(load: () => T): () => T {
+  let loaded: { value: T } | undefined;
+  return () => (loaded ??= { value: load() }).value;
+}
+
+/** 只有 cdn 比对用到 ASN 前缀表；exact 比对不读取，ASN_PREFIXES 配置有误时不影响普通检测。 */
+async function loadCompareAsnPrefixes(query: DohQuery, context: CheckContext): Promise<AsnPrefixEntry[] | undefined> {
+  return query.compare === "cdn" ? context.asn_prefixes() : undefined;
+}
+
+async function runCheckTask(task: CheckTask, context: CheckContext, onProgress?: ProgressReporter): Promise<CheckResult> {
+  const { timeout, references } = context;
+  if (task.mode === "doh") {
+    return runDohCheck(task.target, task.query, timeout, references, await loadCompareAsnPrefixes(task.query, context), onProgress);
+  }
+  if (task.mode === "dnssec") {
+    return runDnssecCheck(task.target, task.query, timeout, references, context.anchors(), onProgress);
+  }
+  if (task.mode === "ecs") {
+    return runEcsCheck(task.target, task.query, task.subnets, timeout, references, onProgress);
+  }
+  if (task.mode === "padding") {
+    return runPaddingCheck(task.target, task.name, timeout, references, onProgress);
+  }
+  if (task.mode === "nxdomain") {
+    return runNxdomainCheck(task.target, task.name, timeout, references, onProgress);
+  }
+  if (task.mode === "filtering") {
+    return runFilteringCheck(task.target, await context.canaries(), timeout, references, context.asn_prefixes, onProgress);
+  }
+  if (task.mode === "benchmark") {
+    return runBenchmarkCheck(task.target, task.name, task.samples, timeout, references, onProgress);
+  }
+  if (task.mode === "cache") {
+    return runCacheCheck(task.target, task.query, timeout, references, onProgress);
+  }
+  return runEchCheck(task.target, timeout, references, onProgress);
+}
+
+function resolveStreamFormat(accept: string | null): StreamFormat | null {
+  if (!accept) return null;
+  if (accept.includes("text/event-stream")) return "sse";
+  if (accept.includes("application/x-ndjson")) return "ndjson";
+  return null;
+}
+
+function handleCheckStream(
+  task: CheckTask,
+  context: CheckContext,
+  format: StreamFormat,
+  ctx: ExecutionContext,
+  persist: (result: CheckResult) => Promise<ResultPermalink | null>
+): Response {
+  const stream = createEventStream<CheckStreamEvent>(format);
+  const providers = task.mode === "ech" ? context.references : [createTargetProvider(task.target), ...context.references];
+  stream.send({ type: "start", mode: task.mode, target: task.target, labels: collectProviderLabels(providers) });
+
+  const completion = runCheckTask(task, context, (event) => stream.send(event))
+    .then(async (result) => stream.send({ type: "result", result: withPermalink(result, await persist(result)) }))
+    .catch((error) => stream.send({ type: "error", message: normalizeErrorMessage(error) }))
+    .finally(() => stream.close());
+  ctx.waitUntil(completion);
+
+  return withCors(new Response(stream.readable, { headers: format === "sse" ? SSE_HEADERS : NDJSON_HEADERS }));
+}
+
+async function handleResultRequest(id: string, env: Env): Promise<Response> {
+  if (!env.RESULTS_KV) {
+    return createErrorResponse("未绑定 RESULTS_KV，结果永久链接功能未启用", 404);
+  }
+  if (!RESULT_ID_PATTERN.test(id)) {
+    return createErrorResponse("结果 ID 格式无效", 400);
+  }
+  const stored = await env.RESULTS_KV.get<StoredCheckResult>(`${RESULT_KV_PREFIX}${id}`, "json");
+  if (!stored) {
+    return createErrorResponse("检测结果不存在或已过期", 404);
+  }
+  return createJsonResponse(stored);
+}
+
+async function storeCheckResult(env: Env, origin: string, task: CheckTask, result: CheckResult): Promise<ResultPermalink | null> {
+  if (!env.RESULTS_KV) return null;
+
+  const retentionDays = resolvePositiveInteger(env.RESULT_RETENTION_DAYS, DEFAULT_RESULT_RETENTION_DAYS);
+  const createdAt = new Date();
+  const expiresAt = new Date(createdAt.getTime() + retentionDays * 86_400_000);
+  const id = generateResultId();
+  const record: StoredCheckResult = {
+    id,
+    mode: task.mode,
+    target: task.target,
+    created_at: createdAt.toISOString(),
+    expires_at: expiresAt.toISOString(),
+    result,
+  };
+
+  // 保存失败不影响本次检测结果的返回，只是不再附带永久链接。
+  try {
+    await env.RESULTS_KV.put(`${RESULT_KV_PREFIX}${id}`, JSON.stringify(record), { expirationTtl: retentionDays * 86_400 });
+  } catch {
+    return null;
+  }
+
+  return { id, url: `${origin}/r/${id}`, api_url: `${origin}/api/results/${id}`, expires_at: record.expires_at };
+}
+
+function withPermalink(result: CheckResult, permalink: ResultPermalink | null): CheckResponse {
+  return permalink ? { ...result, permalink } : result;
+}
+
+function generateResultId(): string {
+  const bytes = new Uint8Array(RESULT_ID_LENGTH);
+  crypto.getRandomValues(bytes);
+  // 256 不是 62 的整数倍，取模会带来轻微偏差；对不可猜测的分享 ID 而言可以接受。
+  return Array.from(bytes, (byte) => RESULT_ID_ALPHABET[byte % RESULT_ID_ALPHABET.length]).join("");
+}
+
+function createEventStream<T extends { type: string }>(format: StreamFormat) {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+
+  // 客户端断开后写入会失败，此时忽略错误，让检测自然结束。
+  const send = (event: T): Promise<void> => {
+    const payload = JSON.stringify(event);
+    const chunk = format === "sse" ? `event: ${event.type}\ndata: ${payload}\n\n` : `${payload}\n`;
+    return writer.write(encoder.encode(chunk)).catch(() => undefined);
+  };
+  const close = (): Promise<void> => writer.close().catch(() => undefined);
+
+  return { readable, send, close };
+}
+
+async function handleBatchRequest(
+  body: { items?: unknown; concurrency?: unknown },
+  env: Env,
+  ctx: ExecutionContext,
+  request: Request,
+  apiKey: ApiKey | null
+): Promise<Response> {
+  const maxItems = resolvePositiveInteger(env.BATCH_MAX_ITEMS, DEFAULT_BATCH_MAX_ITEMS);
+  // 检测项的字段错误只让对应项失败，其余字段的错误使整个请求返回 400。
+  const itemIssues = new Map<number, ValidationIssue[]>();
+  const envelopeIssues: ValidationIssue[] = [];
+  for (const issue of validateSchema(body, OPENAPI_SCHEMAS.BatchRequest)) {
+    const match = issue.field.match(/^items\[(\d+)\]\.?(.*)$/);
+    if (!match) {
+      envelopeIssues.push(issue);
+      continue;
+    }
+    const index = Number(match[1]);
+    itemIssues.set(index, [...(itemIssues.get(index) ?? []), { field: match[2] || "检测项", message: issue.message }]);
+  }
+  if (envelopeIssues.length > 0) {
+    return createValidationErrorResponse(envelopeIssues);
+  }
+  const items = body.items as CheckRequestBody[];
+  if (items.length > maxItems) {
+    return createValidationErrorResponse([{ field: "items", message: `数量不能超过 ${maxItems}` }]);
+  }
+
+  const testDomain = env.DEFAULT_TEST_DOMAIN?.trim() || "linux.do";
+  const tasks: ParsedCheckTask[] = items.map((item, index) => {
+    const issues = itemIssues.get(index);
+    if (issues) {
+      return { ok: false, message: `检测项校验失败：${issues.map(({ field, message }) => `${field} ${message}`).join("；")}`, errors: issues };
+    }
+    const parsed = parseCheckTask(item, testDomain);
+    return parsed.ok && apiKey?.modes && !apiKey.modes.includes(parsed.task.mode)
+      ? { ok: false, message: `API Key ${apiKey.id} 不允许使用 ${parsed.task.mode} 模式`, errors: [{ field: "mode", message: `不允许 API Key ${apiKey.id} 使用` }] }
+      : parsed;
+  });
+
+  const maxConcurrency = resolvePositiveInteger(env.BATCH_CONCURRENCY, DEFAULT_BATCH_CONCURRENCY);
+  const requested = typeof body.concurrency === "number" && Number.isInteger(body.concurrency) && body.concurrency > 0
+    ? body.concurrency
+    : maxConcurrency;
+  const concurrency = Math.min(requested, maxConcurrency);
+  const context = await loadCheckContext(env);
+  // doh / ech 检测项中参考解析器只使用首个请求方式，目标仍尝试全部方式以判断其支持情况；
+  // 否则每项按「解析器数 × 3 种方式」预留，默认配额只够完成两三项。
+  const singleFormatContext: CheckContext = {
+    ...context,
+    references: context.references.map((provider) => ({ ...provider, formats: provider.formats.slice(0, 1) })),
+  };
+
+  // 执行前先规划：依次校验目标，并按预计子请求数预留配额，放不下的项在开头即标记为跳过；
+  // 限额只按实际执行的检测项扣减，未通过校验或被跳过的项不消耗配额。
+  // 批量请求共享同一次 Worker 调用的子请求配额，预留 1 个给加载注册表等额外请求，限流的 Durable Object 调用同样计入。
+  const clientCharge = createClientRateLimitCharge(request, env, apiKey, 0);
+  let remainingSubrequests = resolvePositiveInteger(env.SUBREQUEST_LIMIT, DEFAULT_SUBREQUEST_LIMIT) - 1 - countRateLimitCalls(env, [{ ...clientCharge, cost: 1 }]);
+  const rejectedLines: BatchLine[] = [];
+  const planned: Array<{ index: number; task: CheckTask; context: CheckContext; reserved: number; mode?: string; target?: string }> = [];
+  const targetCounts = new Map<string, number>();
+  const validations = new Map<string, TargetValidation>();
+  let validationLookups = 0;
+  for (const [index, parsed] of tasks.entries()) {
+    const mode = typeof items[index]?.mode === "string" ? items[index].mode : undefined;
+    const target = typeof items[index]?.target === "string" ? items[index].target : undefined;
+    const reject = (type: "error" | "skipped", message: string, errors?: ValidationIssue[]) => {
+      rejectedLines.push({ type, index, mode, target, message, errors });
+    };
+    if (!parsed.ok) {
+      reject("error", parsed.message, parsed.errors);
+      continue;
+    }
+
+    const taskContext = parsed.task.mode === "doh" || parsed.task.mode === "ech" ? singleFormatContext : context;
+    let reserved: number;
+    try {
+      reserved = await estimateTaskSubrequests(parsed.task, taskContext);
+    } catch (error) {
+      // 该模式所需的配置无效时只让本项失败。
+      reject("error", normalizeErrorMessage(error));
+      continue;
+    }
+
+    // 超出单个窗口上限的项无论何时都无法执行，直接跳过而不是让整个批量请求返回 429。
+    const targetCharge = createTargetRateLimitCharge(parsed.task, env, 1);
+    const targetCount = targetCounts.get(targetCharge.key) ?? 0;
+    if (env.RATE_LIMITER && clientCharge.rule.limit > 0 && planned.length >= clientCharge.rule.limit) {
+      reject("skipped", `已达到每 ${clientCharge.rule.window_ms / 1000} 秒 ${clientCharge.rule.limit} 次的检测上限，已跳过。`);
+      continue;
+    }
+    if (env.RATE_LIMITER && targetCharge.rule.limit > 0 && targetCount >= targetCharge.rule.limit) {
+      reject("skipped", `目标 ${targetCharge.subject} 已达到每 ${targetCharge.rule.window_ms / 1000} 秒 ${targetCharge.rule.limit} 次的检测上限，已跳过。`);
+      continue;
+    }
+
+    // 主机名校验的查询与目标限流调用与检测本身一并预留，同一 target 只校验、扣减一次。
+    const validationReserved = parsed.task.mode === "ech" || validations.has(parsed.task.target) ? 0 : TARGET_VALIDATION_RECORD_TYPES.length;
+    const chargeReserved = targetCount === 0 ? countRateLimitCalls(env, [targetCharge]) : 0;
+    const required = reserved + validationReserved + chargeReserved;
+    if (required > remainingSubrequests) {
+      reject("skipped", `剩余子请求配额 ${Math.max(remainingSubrequests, 0)} 不足以完成该项（预计需要 ${required} 次），已跳过。`);
+      continue;
+    }
+
+    let validation = validations.get(parsed.task.target);
+    if (!validation) {
+      try {
+        validation = await validateCheckTarget(parsed.task, context);
+      } catch (error) {
+        remainingSubrequests -= validationReserved;
+        reject("error", normalizeErrorMessage(error));
+        continue;
+      }
+      validations.set(parsed.task.target, validation);
+      remainingSubrequests -= validation.lookups;
+      validationLookups += validation.lookups;
+    }
+    if (!validation.ok) {
+      reject("error", validation.message);
+      continue;
+    }
+
+    remainingSubrequests -= reserved + chargeReserved;
+    targetCounts.set(targetCharge.key, targetCount + 1);
+    planned.push({ index, task: parsed.task, context: taskContext, reserved, mode, target });
+  }
+
+  // 每个执行的检测项按一次检测计入客户端与对应目标的限额。
+  const limited = await enforceRateLimits(env, [
+    { ...clientCharge, cost: planned.length },
+    ...planned.map(({ task }) => createTargetRateLimitCharge(task, env, 1)),
+  ]);
+  if (limited) return limited;
+
+  const stream = createEventStream<BatchLine>("ndjson");
+  const writeLine = stream.send;
+
+  const summary: BatchSummary = {
+    type: "summary",
+    total: tasks.length,
+    completed: 0,
+    failed: rejectedLines.filter((line) => line.type === "error").length,
+    skipped: rejectedLines.filter((line) => line.type === "skipped").length,
+    doh_status: {},
+    ech_enabled: 0,
+    subrequests_used: validationLookups,
+    duration_ms: 0,
+  };
+  const started = Date.now();
+  let cursor = 0;
+
+  const runItem = async ({ index, task, context: taskContext, reserved, mode, target }: (typeof planned)[number]) => {
+    try {
+      const result = await runCheckTask(task, taskContext);
+      summary.subrequests_used += countTaskSubrequests(result);
+      summary.completed += 1;
+      if ("ech_enabled" in result) {
+        if (result.ech_enabled) summary.ech_enabled += 1;
+      } else {
+        summary.doh_status[result.status] = (summary.doh_status[result.status] ?? 0) + 1;
+      }
+      await writeLine({ type: "result", index, mode, target, result });
+    } catch (error) {
+      summary.subrequests_used += reserved;
+      summary.failed += 1;
+      await writeLine({ type: "error", index, mode, target, message: normalizeErrorMessage(error) });
+    }
+  };
+
+  const worker = async () => {
+    while (cursor < planned.length) {
+      const item = planned[cursor];
+      cursor += 1;
+      await runItem(item);
+    }
+  };
+
+  // 未通过校验或被跳过的项先行输出，客户端无需等待即可知道哪些项不会执行及原因。
+  const completion = (async () => {
+    for (const line of rejectedLines) {
+      await writeLine(line);
+    }
+    await Promise.all(Array.from({ length: Math.min(concurrency, planned.length) }, worker));
+  })()
+    .then(async () => {
+      summary.duration_ms = Date.now() - started;
+      await writeLine(summary);
+    })
+    .catch(async (error) => {
+      await writeLine({ type: "error", index: -1, message: normalizeErrorMessage(error) });
+    })
+    .finally(() => stream.close());
+  ctx.waitUntil(completion);
+
+  return withCors(new Response(stream.readable, { headers: NDJSON_HEADERS }));
+}
+
+async function estimateTaskSubrequests(task: CheckTask, context: CheckContext): Promise<number> {
+  const { references } = context;
+  if (task.mode === "ech") {
+    return references.reduce((total, provider) => total + provider.formats.length, 0);
+  }
+  const providers = [createTargetProvider(task.target), ...references];
+  if (task.mode === "filtering") {
+    return providers.length * (await context.canaries()).length;
+  }
+  if (task.mode === "benchmark") {
+    return providers.length * (1 + task.samples * 2);
+  }
+  if (task.mode === "cache") {
+    return providers.length * (CACHE_TTL_SAMPLES + 2);
+  }
+  if (task.mode === "ecs") {
+    return providers.length * (task.subnets.length + 2);
+  }
+  if (task.mode === "padding" || task.mode === "nxdomain") {
+    return providers.length * (task.mode === "padding" ? PADDING_PROBE_RECORD_TYPES.length : NXDOMAIN_PROBES_PER_DOMAIN + NXDOMAIN_RESERVED_SUFFIXES.length);
+  }
+  if (task.mode === "dnssec") {
+    // 链验证每一级区需要 DNSKEY 与 DS 两次查询，另加根区 DNSKEY 与应答本身。
+    const levels = task.query.name.split(".").length;
+    return providers.reduce((total, provider) => total + provider.formats.length, 0) + levels * 2 + 2;
+  }
+  const lookups = (task.query.dual_stack ? DUAL_STACK_RECORD_TYPES.length : 1) + 1; // 地址查询 + HTTPS/ECH 比对
+  return providers.reduce((total, provider) => total + provider.formats.length * lookups, 0);
+}
+
+function countTaskSubrequests(result: CheckResult): number {
+  const attempts = (provider: { attempted_formats?: DohRequestMode[] }) => provider.attempted_formats?.length ?? 0;
+  if ("providers" in result && !("ech_enabled" in result)) {
+    const providers: Array<{ probes: unknown[] }> = Object.values(result.providers);
+    return providers.reduce((total, provider) => total + provider.probes.length, 0);
+  }
+  if ("chain" in result) {
+    return Object.values(result.details).reduce((total, provider) => total + attempts(provider), 0) + result.chain.queries;
+  }
+  if ("details" in result) {
+    const lookups = Object.values(result.details).reduce((total, provider) =>
+      total + (provider.families ? Object.values(provider.families).reduce((sum, family) => sum + attempts(family), 0) : attempts(provider)), 0);
+    const echLookups = Object.values(result.ech_comparison?.providers ?? {}).reduce((total, provider) => total + attempts(provider), 0);
+    return lookups + echLookups;
+  }
+  return Object.values(result.providers).reduce((total, provider) => total + attempts(provider), 0);
+}
+
+async function handleMonitorRequest(env: Env, apiKey: ApiKey | null): Promise<Response> {
+  if (!apiKey) {
+    const response = createErrorResponse("查看定时监控需要在 Authorization 头中提供具有 monitor 权限的 API Key", 401);
+    response.headers.set("WWW-Authenticate", 'Bearer realm="doh-ech-check"');
+    return response;
+  }
+  if (!apiKey.monitor) {
+    return createErrorResponse(`API Key ${apiKey.id} 没有查看定时监控的权限`, 403);
+  }
+  if (!env.MONITOR_KV) {
+    return createErrorResponse("未绑定 MONITOR_KV，定时监控功能未启用", 404);
+  }
+  const monitorKv = env.MONITOR_KV;
+  const watchList = await loadWatchList(env);
+  const items = await Promise.all(watchList.map(async ({ id, task }) => {
+    const record = await monitorKv.get<MonitorRecord>(`${MONITOR_KV_PREFIX}${id}`, "json");
+    return { id, mode: task.mode, target: task.target, latest: record?.history[0] ?? null, history: record?.history ?? [] };
+  }));
+  return createJsonResponse({ items });
+}
+
+async function runScheduledMonitor(env: Env): Promise<void> {
+  if (!env.MONITOR_KV) {
+    throw new Error("未绑定 MONITOR_KV，无法保存监控历史。");
+  }
+  const monitorKv = env.MONITOR_KV;
+  const watchList = await loadWatchList(env);
+  if (watchList.length === 0) return;
+
+  const webhooks = env.ALERT_WEBHOOKS?.trim() ? parseAlertWebhooks(env.ALERT_WEBHOOKS, "ALERT_WEBHOOKS") : [];
+  const historyLimit = resolvePositiveInteger(env.MONITOR_HISTORY_LIMIT, DEFAULT_MONITOR_HISTORY_LIMIT);
+  const concurrency = resolvePositiveInteger(env.BATCH_CONCURRENCY, DEFAULT_BATCH_CONCURRENCY);
+  const context = await loadCheckContext(env);
+  // 与批量检测相同，预留 1 个子请求给加载注册表；每项另按 webhook 数量预留告警推送。
+  let remainingSubrequests = resolvePositiveInteger(env.SUBREQUEST_LIMIT, DEFAULT_SUBREQUEST_LIMIT) - 1;
+  let cursor = 0;
+
+  const runItem = async ({ id, task }: WatchItem) => {
+    const key = `${MONITOR_KV_PREFIX}${id}`;
+    const record = await monitorKv.get<MonitorRecord>(key, "json") ?? { id, mode: task.mode, target: task.target, history: [] };
+    const checkedAt = new Date().toISOString();
+    const reserved = await estimateTaskSubrequests(task, context) + webhooks.length;
+    let snapshot: MonitorSnapshot;
+
+    if (reserved > remainingSubrequests) {
+      snapshot = {
+        checked_at: checkedAt,
+        message: `剩余子请求配额 ${Math.max(remainingSubrequests, 0)} 不足以完成该项（预计需要 ${reserved} 次），本轮已跳过。`,
+        skipped: true,
+      };
+    } else {
+      remainingSubrequests -= reserved;
+      try {
+        snapshot = await runMonitorCheck(task, context, checkedAt);
+      } catch (error) {
+        snapshot = { checked_at: checkedAt, message: normalizeErrorMessage(error), failed: true };
+      }
+
+      const changes = detectMonitorChanges(record.history, snapshot);
+      if (changes.length > 0) {
+        snapshot.changes = changes;
+        snapshot.alerts_delivered = await sendMonitorAlerts(webhooks, {
+          id,
+          mode: task.mode,
+          target: task.target,
+          checked_at: checkedAt,
+          changes,
+          message: snapshot.message,
+        }, context.timeout);
+      }
+    }
+
+    record.history = [snapshot, ...record.history].slice(0, historyLimit);
+    await monitorKv.put(key, JSON.stringify(record));
+  };
+
+  const worker = async () => {
+    while (cursor < watchList.length) {
+      const item = watchList[cursor];
+      cursor += 1;
+      await runItem(item);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, watchList.length) }, worker));
+}
+
+async function runMonitorCheck(task: WatchTask, context: CheckContext, checkedAt: string): Promise<MonitorSnapshot> {
+  if (task.mode === "ech") {
+    const result = await runEchCheck(task.target, context.timeout, context.references);
+    return { checked_at: checkedAt, ech_enabled: result.ech_enabled, message: result.message };
+  }
+  const result = await runDohCheck(task.target, task.query, context.timeout, context.references, await loadCompareAsnPrefixes(task.query, context));
+  return {
+    checked_at: checkedAt,
+    status: result.status,
+    ech_consistent: result.ech_comparison ? result.ech_comparison.consistent : undefined,
+    message: result.message,
+  };
+}
+
+/**
+ * 每个字段与此前最近一次确定了该字段的运行比较，中间失败或跳过的运行既不会触发、也不会掩盖变化。
+ */
+function detectMonitorChanges(history: MonitorSnapshot[], current: MonitorSnapshot): MonitorChange[] {
+  const previousValue = <K extends MonitorChangeField>(field: K): MonitorSnapshot[K] =>
+    history.find((snapshot) => snapshot[field] !== undefined)?.[field];
+  const changes: MonitorChange[] = [];
+
+  const status = previousValue("status");
+  if (status !== undefined && current.status !== undefined && status !== current.status) {
+    changes.push({ field: "status", previous: status, current: current.status });
+  }
+  const echEnabled = previousValue("ech_enabled");
+  if (echEnabled !== undefined && current.ech_enabled !== undefined && echEnabled !== current.ech_enabled) {
+    changes.push({ field: "ech_enabled", previous: echEnabled, current: current.ech_enabled });
+  }
+  // 只在 ECH 配置由一致（或无法判断）变为不一致时告警。
+  const echConsistent = previousValue("ech_consistent");
+  if (echConsistent !== undefined && echConsistent !== false && current.ech_consistent === false) {
+    changes.push({ field: "ech_consistent", previous: echConsistent, current: false });
+  }
+  return changes;
+}
+
+async function sendMonitorAlerts(webhooks: AlertWebhook[], alert: MonitorAlert, timeout: number): Promise<number> {
+  const text = formatMonitorAlert(alert);
+  const settled = await Promise.allSettled(webhooks.map(async (webhook) => {
+    const payload = webhook.type === "slack"
+      ? { text }
+      : webhook.type === "telegram"
+        ? { chat_id: webhook.chat_id, text }
+        : { ...alert, text };
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: JSON_HEADERS,
+      body: JSON.stringify(payload),
+      signal: createTimeoutSignal(timeout),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+  }));
+  return settled.filter((entry) => entry.status === "fulfilled").length;
+}
+
+function formatMonitorAlert(alert: MonitorAlert): string {
+  const describe = (field: MonitorChangeField, value: DohStatus | boolean | null): string => {
+    if (field === "status") return DOH_STATUS_LABELS[value as DohStatus] ?? String(value);
+    if (field === "ech_enabled") return value ? "已启用" : "未启用";
+    return value === true ? "一致" : value === false ? "不一致" : "无法判断";
+  };
+  const fieldLabels: Record<MonitorChangeField, string> = { status: "检测状态", ech_enabled: "ECH", ech_consistent: "ECH 配置一致性" };
+  const lines = alert.changes.map(({ field, previous, current }) =>
+    `${fieldLabels[field]}：${describe(field, previous)} → ${describe(field, current)}`);
+  const subject = alert.mode === "doh" ? `DoH 服务 ${alert.target}` : `域名 ${alert.target}`;
+  return [`[DoH/ECH 监控] ${subject}`, ...lines, alert.message].join("\n");
+}
+
+function resolvePositiveInteger(setting: string | undefined, fallback: number): number {
+  if (!setting) return fallback;
+  const parsed = Number(setting);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function resolveTimeout(timeoutSetting?: string): number {
+  if (!timeoutSetting) return DEFAULT_TIMEOUT_MS;
+  const parsed = Number(timeoutSetting);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_TIMEOUT_MS;
+}
+
+async function runDohCheck(targetUrl: string, query: DohQuery, timeout: number, references: DohProviderConfig[], asnPrefixes: AsnPrefixEntry[] | undefined, onProgress?: ProgressReporter): Promise<DohApiResponse> {
+  const providers: DohProviderConfig[] = [createTargetProvider(targetUrl), ...references];
+
+  const recordTypes = query.dual_stack ? DUAL_STACK_RECORD_TYPES : [query.record_type];
+  const fetchPromises = providers.map((provider) =>
+    fetchProviderAnswers(provider, query.name, recordTypes, timeout, onProgress).then((result) => {
+      onProgress?.({ type: "provider", stage: "doh", provider: provider.key, result });
+      return { key: provider.key, result };
+    })
+  );
+
+  const settled = await Promise.allSettled(fetchPromises);
+
+  const details = Object.fromEntries(
+    settled.map((entry, index) => {
+      const key = providers[index].key;
+      if (entry.status === "fulfilled") {
+        return [key, entry.value.result];
+      }
+      return [key, {
+        status: null,
+        ok: false,
+        ips: [],
+        latency_ms: null,
+        attempted_formats: [],
+        response_format: "unknown",
+        content_type: null,
+        error: normalizeErrorMessage(entry.reason),
+      } satisfies DohProviderResult];
+    })
+  ) as Record<ProviderKey, DohProviderResult>;
+
+  const targetResult = details[TARGET_PROVIDER_KEY];
+  const familyMatches = Object.fromEntries(
+    recordTypes.map((recordType) => [recordType, compareProviderAnswers(details, references, recordType, query.compare, asnPrefixes)])
+  ) as Record<string, Record<ProviderKey, boolean>>;
+  const matches = Object.fromEntries(
+    references.map(({ key }) => {
+      const families = recordTypes.filter((recordType) => selectFamilyResult(details[key], recordType)?.ok);
+      return [key, families.length > 0 && families.every((recordType) => familyMatches[recordType][key])];
+    })
+  ) as Record<ProviderKey, boolean>;
+  const chainMatches = compareCnameChains(details, references);
+  const similarity = query.compare === "cdn" && recordTypes.every((recordType) => recordType === "A" || recordType === "AAAA")
+    ? Object.fromEntries(references.map(({ key }) => [key, scoreAnswerSimilarity(targetResult.ips, details[key].ips, asnPrefixes ?? [])]))
+    : undefined;
+  const echComparison = await runDohEchComparison(providers, query.name, timeout, onProgress);
+
+  const available = references.filter(({ key }) => details[key].ok);
+  const unavailable = references.filter(({ key }) => !details[key].ok);
+  const matched = available.filter(({ key }) => matches[key]);
+  const mismatched = available.filter(({ key }) => !matches[key]);
+
+  let status: DohStatus = "failure";
+  let message = "目标 DoH 服务未返回有效结果。";
+
+  if (!targetResult.ok && targetResult.answer_status === "error") {
+    status = "resolver_error";
+    message = targetResult.error ?? "目标 DoH 服务返回了错误响应。";
+  } else if (!targetResult.ok && (targetResult.answer_status === "nxdomain" || targetResult.answer_status === "nodata")) {
+    status = "empty_answer";
+    message = `${targetResult.error ?? "目标 DoH 服务返回了空响应。"} ${describeEmptyAnswerAgreement(details, references, targetResult.answer_status)}`;
+  } else if (!targetResult.ok) {
+    status = "failure";
+    message = targetResult.error ?? "目标 DoH 服务查询失败。";
+  } else if (available.length === 0) {
+    status = "failure";
+    message = "所有参考解析器均查询失败，无法比对目标 DoH 服务的结果。";
+  } else if (mismatched.length === 0) {
+    status = "success";
+    message = `目标 DoH 服务返回的结果与 ${formatProviderLabels(matched)} ${similarity ? "一致" : "完全一致"}。`;
+  } else if (matched.length > 0) {
+    status = "partial_match";
+    message = `目标 DoH 服务与 ${formatProviderLabels(matched)} 结果一致，但与 ${formatProviderLabels(mismatched)} 不完全一致。`;
+  } else {
+    status = "failure";
+    message = `目标 DoH 服务返回的结果与 ${formatProviderLabels(mismatched)} 均不一致。`;
+  }
+
+  if (targetResult.ok && unavailable.length > 0) {
+    message += ` ${formatProviderLabels(unavailable)} 查询失败，未参与比对。`;
+  }
+
+  if (similarity && targetResult.ok && targetResult.ips.length > 0) {
+    message += ` ${describeSimilarityScores(similarity, available)}`;
+  }
+
+  if (query.dual_stack && targetResult.ok) {
+    message += ` ${describeFamilyMatches(details, references, familyMatches)}`;
+  }
+
+  const rewritten = available.filter(({ key }) => !chainMatches[key] && answersOverlap(targetResult, details[key]));
+  if (targetResult.ok && rewritten.length > 0) {
+    if (status === "success") status = "partial_match";
+    message += ` 目标 DoH 返回的 CNAME 链（${formatCnameChain(targetResult.cname_chain)}）与 ${formatProviderLabels(rewritten)} 不同，但最终地址存在重叠，可能存在改写。`;
+  }
+
+  if (echComparison) {
+    if (echComparison.consistent === false) {
+      message += " 检测到目标 DoH 返回的 ECH 配置与权威解析不一致，可能存在篡改。";
+    } else if (echComparison.consistent === true) {
+      message += " 同时确认 ECH 配置与权威解析一致。";
+    }
+  }
+
+  return {
+    status,
+    message,
+    query,
+    labels: collectProviderLabels(providers),
+    details,
+    comparison: {
+      matches,
+      families: query.dual_stack ? familyMatches : undefined,
+      cname_chains: chainMatches,
+      similarity,
+    },
+    ech_comparison: echComparison ?? undefined,
+  };
+}
+
+async function fetchProviderAnswers(provider: DohProviderConfig, name: string, recordTypes: readonly string[], timeout: number, onProgress?: ProgressReporter): Promise<DohProviderResult> {
+  if (recordTypes.length === 1) {
+    return fetchDohAnswer(provider, name, recordTypes[0], timeout, onProgress);
+  }
+
+  const results = await Promise.all(recordTypes.map((recordType) => fetchDohAnswer(provider, name, recordType, timeout, onProgress)));
+  const families = Object.fromEntries(recordTypes.map((recordType, index) => [recordType, results[index]]));
+  const primary = results.find((result) => result.ok) ?? results[0];
+  const errors = recordTypes
+    .map((recordType, index) => (results[index].ok || !results[index].error ? null : `${recordType}：${results[index].error}`))
+    .filter(Boolean) as string[];
+
+  return {
+    ...primary,
+    ok: results.some((result) => result.ok),
+    ips: Array.from(new Set(results.flatMap((result) => result.ips))),
+    records: results.flatMap((result) => result.records ?? []),
+    error: errors.length > 0 ? errors.join(" | ") : undefined,
+    attempted_formats: DOH_REQUEST_MODES.filter((mode) => results.some((result) => result.attempted_formats.includes(mode))),
+    supported_formats: DOH_REQUEST_MODES.filter((mode) => results.some((result) => result.supported_formats?.includes(mode))),
+    mode_results: recordTypes.flatMap((recordType, index) =>
+      (results[index].mode_results ?? []).map((item) => ({ ...item, record_type: recordType }))
+    ),
+    families,
+  };
+}
+
+function selectFamilyResult(result: DohProviderResult, recordType: string): DohProviderResult | undefined {
+  return result.families ? result.families[recordType] : result;
+}
+
+function compareProviderAnswers(details: Record<ProviderKey, DohProviderResult>, references: DohProviderConfig[], recordType: string, compare: AnswerCompareMode = "exact", asnPrefixes: AsnPrefixEntry[] = []): Record<ProviderKey, boolean> {
+  const target = selectFamilyResult(details[TARGET_PROVIDER_KEY], recordType);
+  const targetAnswers = new Set(extractAnswerData(target?.records, recordType));
+  const scored = compare === "cdn" && (recordType === "A" || recordType === "AAAA");
+  return Object.fromEntries(
+    references.map(({ key }) => {
+      const reference = selectFamilyResult(details[key], recordType);
+      const referenceAnswers = extractAnswerData(reference?.records, recordType);
+      const matched = Boolean(target?.ok && reference?.ok) && (scored
+        ? scoreAnswerSimilarity([...targetAnswers], referenceAnswers, asnPrefixes).score >= CDN_SIMILARITY_THRESHOLD
+        : setsAreEqual(targetAnswers, new Set(referenceAnswers)));
+      return [key, matched];
+    })
+  );
+}
+
+/**
+ * 为每个地址确定其与对方地址集合的关系：地址相同、同一 /24（IPv4）或 /48（IPv6）网段、同一来源 ASN 或无关。
+ * 相似度取双向权重的平均值，任一方多出或缺少地址都会拉低分数。
+ */
+function scoreAnswerSimilarity(targetIps: string[], referenceIps: string[], asnPrefixes: AsnPrefixEntry[]): AnswerSimilarity {
+  const target = targetIps.map((ip) => describeAnswerAddress(ip, asnPrefixes));
+  const reference = referenceIps.map((ip) => describeAnswerAddress(ip, asnPrefixes));
+  const relate = (address: AnswerAddress, others: AnswerAddress[]): keyof typeof CDN_SIMILARITY_WEIGHTS => {
+    if (others.some((other) => other.ip === address.ip)) return "exact";
+    if (others.some((other) => other.network === address.network)) return "same_prefix";
+    if (address.asn && others.some((other) => other.asn?.asn === address.asn?.asn)) return "same_asn";
+    return "unrelated";
+  };
+
+  const counts = { exact: 0, same_prefix: 0, same_asn: 0, unrelated: 0 };
+  target.forEach((address) => { counts[relate(address, reference)] += 1; });
+  const forward = target.reduce((sum, address) => sum + CDN_SIMILARITY_WEIGHTS[relate(address, reference)], 0);
+  const backward = reference.reduce((sum, address) => sum + CDN_SIMILARITY_WEIGHTS[relate(address, target)], 0);
+  const total = target.length + reference.length;
+  const score = total > 0 && target.length > 0 && reference.length > 0 ? Math.round(((forward + backward) / total) * 100) / 100 : 0;
+
+  const formatAsns = (addresses: AnswerAddress[]) => Array.from(new Set(
+    addresses.map(({ asn }) => (asn ? `AS${asn.asn} ${asn.name}` : null)).filter((label): label is string => label !== null)
+  ));
+  const targetAsns = formatAsns(target);
+  const referenceAsns = formatAsns(reference);
+
+  const pieces: string[] = [];
+  if (counts.exact > 0) pieces.push(`${counts.exact} 个地址完全相同`);
+  if (counts.same_prefix > 0) pieces.push(`${counts.same_prefix} 个地址位于相同的 /24 或 /48 网段`);
+  if (counts.same_asn > 0) pieces.push(`${counts.same_asn} 个地址同属 ${targetAsns.filter((label) => referenceAsns.includes(label)).join("、")}`);
+  if (counts.unrelated > 0) {
+    pieces.push(`${counts.unrelated} 个地址与参考结果没有共同网段或 ASN${targetAsns.length > 0 ? `（目标归属 ${targetAsns.join("、")}）` : "（未知 ASN）"}`);
+  }
+  const verdict = score >= CDN_SIMILARITY_THRESHOLD
+    ? "差异符合 CDN 就近调度（GeoDNS）的正常范围。"
+    : "地址归属明显不同，可能存在劫持或污染。";
+  return {
+    score,
+    exact: counts.exact,
+    same_prefix: counts.same_prefix,
+    same_asn: counts.same_asn,
+    unrelated: counts.unrelated,
+    target_asns: targetAsns,
+    reference_asns: referenceAsns,
+    explanation: pieces.length > 0 ? `相似度 ${score.toFixed(2)}：${pieces.join("，")}；${verdict}` : "缺少可比对的地址。",
+  };
+}
+
+function describeAnswerAddress(ip: string, asnPrefixes: AsnPrefixEntry[]): AnswerAddress {
+  const bytes = ipToBytes(ip);
+  if (!bytes) return { ip, network: ip, asn: null };
+  const network = bytes.length === 4 ? `${bytes.slice(0, 3).join(".")}.0/24` : `${formatIpv6(new Uint8Array([...bytes.slice(0, 6), ...new Uint8Array(10)]))}/48`;
+  const family = bytes.length === 4 ? 1 : 2;
+  let asn: AsnPrefixEntry | null = null;
+  for (const entry of asnPrefixes) {
+    if (entry.family === family && (!asn || entry.prefix > asn.prefix) && prefixContains(entry, bytes)) {
+      asn = entry;
+    }
+  }
+  return { ip, network, asn };
+}
+
+function prefixContains(entry: Pick<AsnPrefixEntry, "prefix" | "address">, bytes: Uint8Array): boolean {
+  const whole = Math.floor(entry.prefix / 8);
+  for (let i = 0; i < whole; i += 1) {
+    if (entry.address[i] !== bytes[i]) return false;
+  }
+  const bits = entry.prefix % 8;
+  if (bits === 0) return true;
+  const mask = (0xff << (8 - bits)) & 0xff;
+  return (entry.address[whole] & mask) === (bytes[whole] & mask);
+}
+
+function ipToBytes(ip: string): Uint8Array | null {
+  const ipv4 = parseIpv4(ip);
+  if (ipv4) return new Uint8Array(ipv4);
+  const ipv6 = parseIpv6(ip);
+  return ipv6 ? new Uint8Array(ipv6.flatMap((segment) => [segment >> 8, segment & 0xff])) : null;
+}
+
+function describeSimilarityScores(similarity: Record<ProviderKey, AnswerSimilarity>, references: DohProviderConfig[]): string {
+  const scores = references
+    .filter(({ key }) => similarity[key])
+    .map(({ key, label }) => `${label} ${similarity[key].score.toFixed(2)}`);
+  return scores.length > 0 ? `CDN 相似度：${scores.join("、")}。` : "";
+}
+
+function compareCnameChains(details: Record<ProviderKey, DohProviderResult>, references: DohProviderConfig[]): Record<ProviderKey, boolean> {
+  const target = details[TARGET_PROVIDER_KEY];
+  return Object.fromEntries(
+    references.map(({ key }) => {
+      const reference = details[key];
+      const matched = Boolean(target.ok && reference.ok)
+        && (target.cname_chain ?? []).join(" ") === (reference.cname_chain ?? []).join(" ");
+      return [key, matched];
+    })
+  );
+}
+
+function answersOverlap(a: DohProviderResult, b: DohProviderResult): boolean {
+  const addresses = new Set(a.ips);
+  return b.ips.some((ip) => addresses.has(ip));
+}
+
+function formatCnameChain(chain: string[] | undefined): string {
+  return (chain ?? []).join(" → ");
+}
+
+function describeEmptyAnswerAgreement(details: Record<ProviderKey, DohProviderResult>, references: DohProviderConfig[], answerStatus: DnsAnswerStatus): string {
+  const agreeing = references.filter(({ key }) => details[key].answer_status === answerStatus);
+  const answering = references.filter(({ key }) => details[key].ok);
+  const pieces: string[] = [];
+  if (agreeing.length > 0) {
+    pieces.push(`${formatProviderLabels(agreeing)} ${answerStatus === "nxdomain" ? "同样返回 NXDOMAIN" : "同样返回空应答（NODATA）"}。`);
+  }
+  if (answering.length > 0) {
+    pieces.push(`但 ${formatProviderLabels(answering)} 返回了记录，目标解析器的结果可疑。`);
+  }
+  if (pieces.length === 0) {
+    pieces.push("参考解析器均未给出可比对的结果。");
+  }
+  return pieces.join(" ");
+}
+
+function describeFamilyMatches(details: Record<ProviderKey, DohProviderResult>, references: DohProviderConfig[], familyMatches: Record<string, Record<ProviderKey, boolean>>): string {
+  return Object.entries(familyMatches).map(([recordType, matches]) => {
+    const familyLabel = recordType === "AAAA" ? "IPv6" : "IPv4";
+    if (!selectFamilyResult(details[TARGET_PROVIDER_KEY], recordType)?.ok) {
+      return `${familyLabel}（${recordType}）：目标 DoH 未返回记录。`;
+    }
+    const available = references.filter(({ key }) => selectFamilyResult(details[key], recordType)?.ok);
+    if (available.length === 0) {
+      return `${familyLabel}（${recordType}）：参考解析器均未返回记录。`;
+    }
+    const matched = available.filter(({ key }) => matches[key]);
+    const mismatched = available.filter(({ key }) => !matches[key]);
+    if (mismatched.length === 0) {
+      return `${familyLabel}（${recordType}）：与 ${formatProviderLabels(matched)} 一致。`;
+    }
+    return matched.length > 0
+      ? `${familyLabel}（${recordType}）：与 ${formatProviderLabels(matched)} 一致，与 ${formatProviderLabels(mismatched)} 不一致。`
+      : `${familyLabel}（${recordType}）：与 ${formatProviderLabels(mismatched)} 均不一致。`;
+  }).join(" ");
+}
+
+type DohEchComparison = {
+  providers: Record<ProviderKey, EchProviderResult>;
+  matches: Record<ProviderKey, boolean | null>;
+  consistent: boolean | null;
+  notes: string[];
+};
+
+async function runDohEchComparison(providers: DohProviderConfig[], domain: string, timeout: number, onProgress?: ProgressReporter): Promise<DohEchComparison | null> {
+  const fetchPromises = providers.map((provider) =>
+    fetchHttpsRecord(provider, domain, timeout, onProgress).then((result) => {
+      onProgress?.({ type: "provider", stage: "ech", provider: provider.key, result });
+      return { key: provider.key, result };
+    })
+  );
+
+  const settled = await Promise.allSettled(fetchPromises);
+  const echResults = Object.fromEntries(
+    settled.map((entry, index) => {
+      const key = providers[index].key;
+      if (entry.status === "fulfilled") {
+        return [key, entry.value.result];
+      }
+      return [key, createEchFailureResult(entry.reason)];
+    })
+  ) as Record<ProviderKey, EchProviderResult>;
+
+  const targetResult = echResults[TARGET_PROVIDER_KEY];
+  const references = providers.filter(({ key }) => key !== TARGET_PROVIDER_KEY);
+
+  if (!targetResult && references.every(({ key }) => !echResults[key])) {
+    return null;
+  }
+
+  const targetEch = extractEchConfigList(targetResult);
+  const notes: string[] = [];
+  const matches = Object.fromEntries(
+    references.map(({ key, label }) => [key, computeEchMatch(targetEch, extractEchConfigList(echResults[key]), notes, label)])
+  ) as Record<ProviderKey, boolean | null>;
+
+  const verdicts = Object.values(matches);
+  let consistent: boolean | null = null;
+  if (verdicts.some((verdict) => verdict === false)) {
+    consistent = false;
+  } else if (verdicts.length > 0 && verdicts.every((verdict) => verdict === true)) {
+    consistent = true;
+  }
+
+  return {
+    providers: echResults,
+    matches,
+    consistent,
+    notes,
+  };
+}
+
+async function runEchCheck(domain: string, timeout: number, references: DohProviderConfig[], onProgress?: ProgressReporter): Promise<EchApiResponse> {
+  const fetchPromises = references.map((provider) =>
+    fetchHttpsRecord(provider, domain, timeout, onProgress).then((result) => {
+      onProgress?.({ type: "provider", stage: "ech", provider: provider.key, result });
+      return { key: provider.key, result };
+    })
+  );
+
+  const settled = await Promise.allSettled(fetchPromises);
+
+  const providerResults = Object.fromEntries(
+    settled.map((entry, index) => {
+      const key = references[index].key;
+      if (entry.status === "fulfilled") {
+        return [key, entry.value.result];
+      }
+      return [key, createEchFailureResult(entry.reason)];
+    })
+  ) as EchApiResponse["providers"];
+
+  const echEnabled = Object.values(providerResults).some((provider) => provider.found);
+
+  const message = echEnabled
+    ? "检测到 HTTPS 记录包含 ECH 参数，推测该域名已启用 ECH。"
+    : "未在权威 DoH 服务的 HTTPS 记录中发现 ECH 参数，可能未启用 ECH。";
+
+  return {
+    ech_enabled: echEnabled,
+    message,
+    labels: collectProviderLabels(references),
+    providers: providerResults,
+  };
+}
+
+async function runDnssecCheck(targetUrl: string, query: DohQuery, timeout: number, references: DohProviderConfig[], anchors: DnssecDsRecord[], onProgress?: ProgressReporter): Promise<DnssecApiResponse> {
+  const providers: DohProviderConfig[] = [createTargetProvider(targetUrl), ...references];
+  const options: DnsQueryOptions = { dnssec_ok: true };
+  const chainSource = references.find((provider) => resolveProviderEndpoint(provider, "wire") || resolveProviderEndpoint(provider, "post")) ?? null;
+  const context = chainSource ? createDnssecContext(chainSource, timeout, anchors) : null;
+
+  const [settled, chain] = await Promise.all([
+    Promise.allSettled(providers.map((provider) =>
+      fetchDohAnswer(provider, query.name, query.record_type, timeout, onProgress, options).then((result) => {
+        onProgress?.({ type: "provider", stage: "doh", provider: provider.key, result });
+        return result;
+      })
+    )),
+    context
+      ? validateDnssecChain(context, query.name, query.record_type)
+      : Promise.resolve<DnssecChainResult>({
+          status: "indeterminate",
+          source: null,
+          signers: [],
+          zones: [],
+          queries: 0,
+          error: "没有可用于链验证的 RFC 8484 参考解析器。",
+        }),
+  ]);
+
+  const details = Object.fromEntries(
+    settled.map((entry, index) => {
+      const key = providers[index].key;
+      if (entry.status === "fulfilled") {
+        return [key, entry.value];
+      }
+      return [key, {
+        status: null,
+        ok: false,
+        ips: [],
+        latency_ms: null,
+        attempted_formats: [],
+        response_format: "unknown",
+        content_type: null,
+        error: normalizeErrorMessage(entry.reason),
+      } satisfies DohProviderResult];
+    })
+  ) as Record<ProviderKey, DohProviderResult>;
+
+  const validation: Record<ProviderKey, DnssecProviderVerdict> = {};
+  for (const provider of providers) {
+    const result = details[provider.key];
+    const signaturesValid = context && chain.status === "secure" ? await verifyProviderSignatures(context, result) : null;
+    validation[provider.key] = classifyDnssecBehaviour(chain.status, result, signaturesValid);
+  }
+  if (context) {
+    chain.queries = context.queries;
+    chain.zones = context.steps;
+  }
+
+  const target = validation[TARGET_PROVIDER_KEY];
+  let status: DohStatus = "failure";
+  let message: string;
+  if (chain.status === "insecure" || chain.status === "indeterminate") {
+    message = chain.status === "insecure"
+      ? `${query.name} 未启用 DNSSEC 签名或只使用了不支持校验的算法，无法评估目标 DoH 服务的验证行为，请改用已签名的域名。`
+      : `未能独立完成 ${query.name} 的 DNSSEC 链验证，无法评估目标 DoH 服务的验证行为。`;
+  } else if (target.signatures_valid === false) {
+    message = "目标 DoH 服务返回的 RRSIG 无法通过验证，应答可能被篡改。";
+  } else if (target.behaviour === "validating") {
+    status = "success";
+    message = chain.status === "secure"
+      ? "目标 DoH 服务执行了 DNSSEC 验证，应答置位 AD 且签名链有效。"
+      : "测试域名签名无效，目标 DoH 服务拒绝返回结果，推测执行了 DNSSEC 验证。";
+  } else if (target.behaviour === "non_validating") {
+    status = "partial_match";
+    message = "目标 DoH 服务透传了 DNSSEC 签名，但未执行验证。";
+  } else if (target.behaviour === "stripping") {
+    message = "目标 DoH 服务未返回 RRSIG，可能剥离了 DNSSEC 签名。";
+  } else {
+    message = target.note;
+  }
+
+  const referenceSummary = references
+    .map(({ key, label }) => `${label}：${DNSSEC_BEHAVIOUR_LABELS[validation[key].behaviour]}`)
+    .join("，");
+  if (referenceSummary) {
+    message += ` 参考解析器 ${referenceSummary}。`;
+  }
+
+  return {
+    status,
+    message,
+    query,
+    labels: collectProviderLabels(providers),
+    details,
+    chain,
+    validation,
+  };
+}
+
+async function runEcsCheck(targetUrl: string, query: DohQuery, subnets: string[], timeout: number, references: DohProviderConfig[], onProgress?: ProgressReporter): Promise<EcsApiResponse> {
+  const providers: DohProviderConfig[] = [createTargetProvider(targetUrl), ...references];
+  const results = await Promise.all(providers.map((provider) => probeEcsProvider(provider, query, subnets, timeout, onProgress)));
+  const providerResults = Object.fromEntries(providers.map(({ key }, index) => [key, results[index]])) as Record<ProviderKey, EcsProviderResult>;
+
+  const target = providerResults[TARGET_PROVIDER_KEY];
+  const known = references.filter(({ key }) => providerResults[key].behaviour !== "unknown");
+  const matched = known.filter(({ key }) => providerResults[key].behaviour === target.behaviour);
+  const mismatched = known.filter(({ key }) => providerResults[key].behaviour !== target.behaviour);
+
+  let status: DohStatus = "failure";
+  let message: string;
+  if (target.behaviour === "unknown") {
+    message = target.note;
+  } else if (known.length === 0) {
+    message = `目标 DoH 服务${ECS_BEHAVIOUR_LABELS[target.behaviour]}，但参考解析器均无法完成探测，无法比对。`;
+  } else if (mismatched.length === 0) {
+    status = "success";
+    message = `目标 DoH 服务${ECS_BEHAVIOUR_LABELS[target.behaviour]}，与 ${formatProviderLabels(matched)} 行为一致。`;
+  } else if (matched.length > 0) {
+    status = "partial_match";
+    message = `目标 DoH 服务${ECS_BEHAVIOUR_LABELS[target.behaviour]}，与 ${formatProviderLabels(matched)} 一致，但与 ${formatProviderLabels(mismatched)} 不同。`;
+  } else {
+    message = `目标 DoH 服务${ECS_BEHAVIOUR_LABELS[target.behaviour]}，与 ${formatProviderLabels(mismatched)} 均不同。`;
+  }
+
+  const referenceSummary = references
+    .map(({ key, label }) => `${label}：${ECS_BEHAVIOUR_LABELS[providerResults[key].behaviour]}`)
+    .join("，");
+  if (referenceSummary) {
+    message += ` 参考解析器 ${referenceSummary}。`;
+  }
+
+  return {
+    status,
+    message,
+    query,
+    subnets,
+    labels: collectProviderLabels(providers),
+    providers: providerResults,
+  };
+}
+
+async function probeEcsProvider(provider: DohProviderConfig, query: DohQuery, subnets: string[], timeout: number, onProgress?: ProgressReporter): Promise<EcsProviderResult> {
+  // ECS 是 EDNS0 选项，只能通过 RFC 8484 报文携带。
+  const mode: DohRequestMode | null = resolveProviderEndpoint(provider, "wire") ? "wire" : resolveProviderEndpoint(provider, "post") ? "post" : null;
+  const endpoint = mode ? resolveProviderEndpoint(provider, mode) : null;
+  if (!mode || !endpoint) {
+    return {
+      behaviour: "unknown",
+      note: `${provider.label} 未提供 RFC 8484 接口，无法携带 ECS 选项。`,
+      supported: false,
+      answers_vary: false,
+      scope_prefixes: [],
+      probes: [],
+    };
+  }
+
+  const plan = [...[null, ...subnets].map((subnet) => ({ subnet, repeat: false })), { subnet: subnets[0], repeat: true }];
+  const probes = await Promise.all(plan.map(async ({ subnet, repeat }) => {
+    const result = await performDohRequest(endpoint, query.name, query.record_type, timeout, mode, subnet ? { client_subnet: subnet } : {});
+    const probe: EcsProbeResult = { ...result, supported: true, subnet, ...(repeat ? { repeat } : {}) };
+    onProgress?.({ type: "attempt", stage: "ecs", provider: provider.key, record_type: query.record_type, mode, subnet, result: probe });
+    return probe;
+  }));
+
+  return { ...classifyEcsBehaviour(probes, query.record_type), supported: true, probes };
+}
+
+function classifyEcsBehaviour(probes: EcsProbeResult[], recordType: string): Pick<EcsProviderResult, "behaviour" | "note" | "answers_vary" | "scope_prefixes"> {
+  const answered = probes.filter((probe) => probe.subnet && probe.ok);
+  if (answered.length === 0) {
+    const failure = probes.find((probe) => probe.subnet && probe.error);
+    return { behaviour: "unknown", note: failure?.error ?? "携带 ECS 的查询均失败，无法判断。", answers_vary: false, scope_prefixes: [] };
+  }
+
+  const echoes = answered.map((probe) => probe.client_subnet).filter((echo): echo is EcsOptionInfo => Boolean(echo));
+  const scopePrefixes = echoes.map((echo) => echo.scope_prefix);
+  const answerKey = (probe: EcsProbeResult) => extractAnswerData(probe.records, recordType).sort().join(",");
+  const firstRound = answered.filter((probe) => !probe.repeat);
+  const answerSets = new Set(firstRound.map(answerKey));
+  // 不带 ECS 的基线应答与所有携带子网的应答都不同，同样说明子网改变了解析结果。
+  const baseline = probes.find((probe) => !probe.subnet && probe.ok);
+  const differsFromBaseline = baseline !== undefined && !answerSets.has(answerKey(baseline));
+  const answersVary = answerSets.size > 1 || differsFromBaseline;
+  const maxScope = Math.max(0, ...scopePrefixes);
+  const repeated = answered.find((probe) => probe.repeat);
+  const original = repeated && firstRound.find((probe) => probe.subnet === repeated.subnet);
+  const stable = repeated !== undefined && original !== undefined && answerKey(repeated) === answerKey(original);
+
+  if (maxScope > 0) {
+    return { behaviour: "honouring", note: `应答返回 ECS 作用域 /${maxScope}，客户端子网已转发至上游。`, answers_vary: answersVary, scope_prefixes: scopePrefixes };
+  }
+  // 作用域为 /0 时应答差异也可能来自轮询或按地区的负载均衡，需回显 ECS 或同一子网的重复查询结果一致才能归因于子网。
+  if (answersVary && echoes.length === 0 && !stable) {
+    return {
+      behaviour: "unknown",
+      note: "应答随查询变化，但未回显 ECS 选项，且同一子网的重复查询结果也不一致，可能只是轮询或负载均衡，无法判断是否使用了客户端子网。",
+      answers_vary: answersVary,
+      scope_prefixes: scopePrefixes,
+    };
+  }
+  if (answerSets.size > 1) {
+    return { behaviour: "honouring", note: "不同子网得到不同应答，客户端子网影响了解析结果。", answers_vary: answersVary, scope_prefixes: scopePrefixes };
+  }
+  if (differsFromBaseline) {
+    return { behaviour: "honouring", note: "携带子网的应答与不带 ECS 的基线应答不同，客户端子网影响了解析结果。", answers_vary: answersVary, scope_prefixes: scopePrefixes };
+  }
+  if (echoes.length > 0) {
+    return { behaviour: "ignoring", note: `回显了 ECS 选项但作用域为 /0，且应答${baseline ? "与基线" : ""}一致，未使用客户端子网。`, answers_vary: answersVary, scope_prefixes: scopePrefixes };
+  }
+  return { behaviour: "stripping", note: "应答未回显 ECS 选项，请求中的客户端子网被丢弃。", answers_vary: answersVary, scope_prefixes: scopePrefixes };
+}
+
+async function runPaddingCheck(targetUrl: string, name: string, timeout: number, references: DohProviderConfig[], onProgress?: ProgressReporter): Promise<PaddingApiResponse> {
+  const providers: DohProviderConfig[] = [createTargetProvider(targetUrl), ...references];
+  const results = await Promise.all(providers.map((provider) => probePaddingProvider(provider, name, timeout, onProgress)));
+  const providerResults = Object.fromEntries(providers.map(({ key }, index) => [key, results[index]])) as Record<ProviderKey, PaddingProviderResult>;
+
+  const target = providerResults[TARGET_PROVIDER_KEY];
+  let status: DohStatus = "failure";
+  let message: string;
+  if (target.behaviour === "padded") {
+    status = "success";
+    message = `目标 DoH 服务对响应进行了 EDNS(0) 填充${target.block_size ? `，块大小约为 ${target.block_size} 字节` : ""}。`;
+    if (target.block_size && target.block_size !== RECOMMENDED_RESPONSE_PADDING_BLOCK) {
+      message += ` RFC 8467 建议响应使用 ${RECOMMENDED_RESPONSE_PADDING_BLOCK} 字节块。`;
+    }
+  } else if (target.behaviour === "partial") {
+    status = "partial_match";
+    message = "目标 DoH 服务仅对部分响应进行了填充，响应长度仍可能泄露查询内容。";
+  } else if (target.behaviour === "unpadded") {
+    message = "目标 DoH 服务未对响应进行填充，响应长度可能泄露查询内容。";
+  } else {
+    message = target.note;
+  }
+
+  const referenceSummary = references
+    .map(({ key, label }) => `${label}：${describePaddingResult(providerResults[key])}`)
+    .join("，");
+  if (referenceSummary) {
+    message += ` 参考解析器 ${referenceSummary}。`;
+  }
+
+  return {
+    status,
+    message,
+    query: { name, record_types: [...PADDING_PROBE_RECORD_TYPES], query_block: PADDING_QUERY_BLOCK },
+    labels: collectProviderLabels(providers),
+    providers: providerResults,
+  };
+}
+
+async function probePaddingProvider(provider: DohProviderConfig, name: string, timeout: number, onProgress?: ProgressReporter): Promise<PaddingProviderResult> {
+  // 填充是 EDNS0 选项，只能通过 RFC 8484 报文携带与观察。
+  const mode: DohRequestMode | null = resolveProviderEndpoint(provider, "wire") ? "wire" : resolveProviderEndpoint(provider, "post") ? "post" : null;
+  const endpoint = mode ? resolveProviderEndpoint(provider, mode) : null;
+  if (!mode || !endpoint) {
+    return {
+      behaviour: "unknown",
+      supported: false,
+      block_size: null,
+      response_lengths: [],
+      note: `${provider.label} 未提供 RFC 8484 接口，无法检测 EDNS(0) 填充。`,
+      probes: [],
+    };
+  }
+
+  const probes = await Promise.all(PADDING_PROBE_RECORD_TYPES.map(async (recordType) => {
+    const result = await performDohRequest(endpoint, name, recordType, timeout, mode, { padding_block: PADDING_QUERY_BLOCK });
+    const probe: DohProviderModeResult = { ...result, record_type: recordType, supported: true };
+    onProgress?.({ type: "attempt", stage: "doh", provider: provider.key, record_type: recordType, mode, result: probe });
+    return probe;
+  }));
+
+  return { ...classifyPaddingBehaviour(probes), supported: true, probes };
+}
+
+function classifyPaddingBehaviour(probes: DohProviderModeResult[]): Omit<PaddingProviderResult, "supported" | "probes"> {
+  const answered = probes.filter((probe) => probe.padding);
+  const lengths = answered.map((probe) => probe.padding!.message_length);
+  if (answered.length === 0) {
+    const failure = probes.find((probe) => probe.error);
+    return { behaviour: "unknown", block_size: null, response_lengths: [], note: failure?.error ?? "未收到可解析的 DNS 报文，无法判断。" };
+  }
+
+  const padded = answered.filter((probe) => probe.padding!.padded);
+  const blockSize = inferPaddingBlockSize(padded.map((probe) => probe.padding!.message_length));
+  if (padded.length === 0) {
+    return { behaviour: "unpadded", block_size: null, response_lengths: lengths, note: "响应中没有 Padding 选项。" };
+  }
+  if (padded.length < answered.length) {
+    return { behaviour: "partial", block_size: blockSize, response_lengths: lengths, note: `${answered.length} 个响应中仅 ${padded.length} 个带有 Padding 选项。` };
+  }
+  return {
+    behaviour: "padded",
+    block_size: blockSize,
+    response_lengths: lengths,
+    note: blockSize ? `所有响应均已填充，长度均为 ${blockSize} 字节的整数倍。` : "所有响应均带有 Padding 选项，但长度没有明显的块大小。",
+  };
+}
+
+function inferPaddingBlockSize(lengths: number[]): number | null {
+  if (lengths.length === 0) return null;
+  const candidate = PADDING_BLOCK_CANDIDATES.find((block) => lengths.every((length) => length % block === 0));
+  if (candidate) return candidate;
+  const gcd = lengths.reduce((a, b) => {
+    let x = a;
+    let y = b;
+    while (y) [x, y] = [y, x % y];
+    return x;
+  });
+  return gcd >= 16 ? gcd : null;
+}
+
+function describePaddingResult(result: PaddingProviderResult): string {
+  const label = PADDING_BEHAVIOUR_LABELS[result.behaviour];
+  return result.block_size ? `${label}（${result.block_size} 字节块）` : label;
+}
+
+async function runNxdomainCheck(targetUrl: string, name: string, timeout: number, references: DohProviderConfig[], onProgress?: ProgressReporter): Promise<NxdomainApiResponse> {
+  const providers: DohProviderConfig[] = [createTargetProvider(targetUrl), ...references];
+  const probeNames = [
+    ...Array.from({ length: NXDOMAIN_PROBES_PER_DOMAIN }, () => `${generateProbeLabel()}.${name}`),
+    ...NXDOMAIN_RESERVED_SUFFIXES.map((suffix) => `${generateProbeLabel()}.${suffix}`),
+  ];
+  const probeSets = await Promise.all(providers.map((provider) => probeNxdomainProvider(provider, probeNames, timeout, onProgress)));
+  // 目标（下标 0）不参与判定其他解析器的“确定不存在”名称。
+  const providerResults = Object.fromEntries(providers.map((provider, index) => [
+    provider.key,
+    classifyNxdomainBehaviour(provider, probeSets[index], probeSets.filter((_, other) => other !== index && other !== 0)),
+  ])) as Record<ProviderKey, NxdomainProviderResult>;
+
+  const target = providerResults[TARGET_PROVIDER_KEY];
+  let status: DohStatus = "failure";
+  let message: string;
+  if (target.behaviour === "rewriting") {
+    message = `目标 DoH 服务将不存在的域名改写为 ${target.rewritten_ips.join("、")}，存在 NXDOMAIN 劫持。`;
+  } else if (target.behaviour === "intact") {
+    status = "success";
+    message = "目标 DoH 服务对所有不存在的域名均如实返回 NXDOMAIN。";
+  } else if (target.behaviour === "inconsistent") {
+    status = "partial_match";
+    message = `目标 DoH 服务未改写为地址，但${target.note}`;
+  } else {
+    message = target.note;
+  }
+
+  const referenceSummary = references
+    .map(({ key, label }) => `${label}：${describeNxdomainResult(providerResults[key])}`)
+    .join("，");
+  if (referenceSummary) {
+    message += ` 参考解析器 ${referenceSummary}。`;
+  }
+
+  return {
+    status,
+    message,
+    query: { name, probes: probeNames },
+    labels: collectProviderLabels(providers),
+    providers: providerResults,
+  };
+}
+
+async function probeNxdomainProvider(provider: DohProviderConfig, names: string[], timeout: number, onProgress?: ProgressReporter): Promise<NxdomainProbeResult[] | null> {
+  const selected = selectProbeMode(provider);
+  if (!selected) return null;
+  const { mode, endpoint } = selected;
+
+  return Promise.all(names.map(async (name) => {
+    const result = await performDohRequest(endpoint, name, "A", timeout, mode);
+    const probe: NxdomainProbeResult = { ...result, name, record_type: "A", supported: true, rewritten: false };
+    onProgress?.({ type: "attempt", stage: "doh", provider: provider.key, record_type: "A", name, mode, result: probe });
+    return probe;
+  }));
+}
+
+function classifyNxdomainBehaviour(provider: DohProviderConfig, probes: NxdomainProbeResult[] | null, others: Array<NxdomainProbeResult[] | null>): NxdomainProviderResult {
+  if (!probes) {
+    return { behaviour: "unknown", supported: false, rewritten_ips: [], note: `${provider.label} 未启用任何请求方式。`, probes: [] };
+  }
+
+  // 仅当其他参考解析器一致返回 NXDOMAIN 时，才把该名称视为确定不存在。
+  const comparable = probes.map((probe, index) => {
+    const answers = others.map((set) => set?.[index]).filter((item): item is NxdomainProbeResult => Boolean(item?.answer_status));
+    return answers.length > 0 && answers.every((item) => item.answer_status === "nxdomain");
+  });
+  const marked = probes.map((probe, index) => ({ ...probe, rewritten: comparable[index] && probe.ips.length > 0 }));
+  const rewrittenIps = Array.from(new Set(marked.filter((probe) => probe.rewritten).flatMap((probe) => probe.ips)));
+  const checked = marked.filter((_, index) => comparable[index]);
+
+  if (rewrittenIps.length > 0) {
+    const count = marked.filter((probe) => probe.rewritten).length;
+    return { behaviour: "rewriting", supported: true, rewritten_ips: rewrittenIps, note: `${checked.length} 个不存在的域名中有 ${count} 个被解析为 ${rewrittenIps.join("、")}。`, probes: marked };
+  }
+  if (checked.length === 0) {
+    const failure = marked.find((probe) => probe.error && probe.answer_status !== "nxdomain");
+    return { behaviour: "unknown", supported: true, rewritten_ips: [], note: failure?.error ?? "参考解析器未一致返回 NXDOMAIN，无法判断。", probes: marked };
+  }
+  const deviating = checked.filter((probe) => probe.answer_status !== "nxdomain");
+  if (deviating.length > 0) {
+    const detail = deviating.map((probe) => `${probe.name}：${probe.header?.rcode_name ?? probe.error ?? "无响应"}`).join("；");
+    return { behaviour: "inconsistent", supported: true, rewritten_ips: [], note: `${deviating.length} 个不存在的域名未返回 NXDOMAIN（${detail}）。`, probes: marked };
+  }
+  return { behaviour: "intact", supported: true, rewritten_ips: [], note: `${checked.length} 个不存在的域名均返回 NXDOMAIN。`, probes: marked };
+}
+
+/** 每个名称只用首个可用的请求方式查询一次，避免子请求数量随请求方式成倍增长。 */
+function selectProbeMode(provider: DohProviderConfig): { mode: DohRequestMode; endpoint: string } | null {
+  for (const mode of DOH_REQUEST_MODES) {
+    const endpoint = resolveProviderEndpoint(provider, mode);
+    if (endpoint) return { mode, endpoint };
+  }
+  return null;
+}
+
+async function runFilteringCheck(
+  targetUrl: string,
+  canaries: FilteringCanary[],
+  timeout: number,
+  references: DohProviderConfig[],
+  loadAsnPrefixes: () => Promise<AsnPrefixEntry[]>,
+  onProgress?: ProgressReporter
+): Promise<FilteringApiResponse> {
+  const providers: DohProviderConfig[] = [createTargetProvider(targetUrl), ...references];
+  const probeSets = await Promise.all(providers.map((provider) => probeFilteringProvider(provider, canaries, timeout, onProgress)));
+  // ASN 前缀表只用于排除拦截页判断中的 CDN 地址，没有地址被多个域名复用时无需读取。
+  const reusesAddress = probeSets.some((probes) => {
+    const ips = (probes ?? []).flatMap((probe) => probe.ips);
+    return new Set(ips).size < ips.length;
+  });
+  const asnPrefixes = reusesAddress ? await loadAsnPrefixes() : [];
+  const providerResults = Object.fromEntries(providers.map((provider, index) => [
+    provider.key,
+    summarizeFilteringProvider(provider, probeSets[index], probeSets.filter((_, other) => other !== index && other !== 0), asnPrefixes),
+  ])) as Record<ProviderKey, FilteringProviderResult>;
+
+  const target = providerResults[TARGET_PROVIDER_KEY];
+  const errors = target.probes.filter((probe) => probe.verdict === "error");
+  let status: DohStatus = "success";
+  let message: string;
+  if (!target.supported || errors.length === target.probes.length) {
+    status = "failure";
+    message = errors[0]?.error ?? target.note;
+  } else {
+    message = `目标 DoH 服务${target.note}`;
+    if (errors.length > 0) {
+      status = "partial_match";
+      message += ` ${errors.length} 个域名查询失败，结果可能不完整。`;
+    }
+  }
+
+  const filteringReferences = references.filter(({ key }) => providerResults[key].blocked_categories.length > 0);
+  if (filteringReferences.length > 0) {
+    message += ` 注意：参考解析器 ${formatProviderLabels(filteringReferences)} 也拦截了部分域名。`;
+  }
+
+  return {
+    status,
+    message,
+    query: { domains: canaries },
+    labels: collectProviderLabels(providers),
+    providers: providerResults,
+  };
+}
+
+async function probeFilteringProvider(provider: DohProviderConfig, canaries: FilteringCanary[], timeout: number, onProgress?: ProgressReporter): Promise<FilteringProbeResult[] | null> {
+  const selected = selectProbeMode(provider);
+  if (!selected) return null;
+  const { mode, endpoint } = selected;
+
+  return Promise.all(canaries.map(async ({ name, category }) => {
+    const result = await performDohRequest(endpoint, name, "A", timeout, mode);
+    const probe: FilteringProbeResult = {
+      ...result,
+      name,
+      category,
+      record_type: "A",
+      supported: true,
+      ...classifyFilteringAnswer(result),
+    };
+    onProgress?.({ type: "attempt", stage: "doh", provider: provider.key, record_type: "A", name, mode, result: probe });
+    return probe;
+  }));
+}
+
+function classifyFilteringAnswer(result: DohBaseResult): Pick<FilteringProbeResult, "verdict" | "block_method"> {
+  if (result.answer_status === "nxdomain") return { verdict: "blocked", block_method: "nxdomain" };
+  if (result.header?.rcode === 5) return { verdict: "blocked", block_method: "refused" };
+  if (result.ips.some((ip) => ip === "0.0.0.0" || ip === "::")) return { verdict: "blocked", block_method: "null_ip" };
+  if (result.ips.some((ip) => FILTERING_SINKHOLE_ADDRESSES.has(ip))) return { verdict: "blocked", block_method: "sinkhole" };
+  if (result.ok) return { verdict: "passed", block_method: null };
+  // NODATA 可能是域名本身没有 A 记录，交由参考解析器的结果判断。
+  return { verdict: result.answer_status === "nodata" ? "unavailable" : "error", block_method: null };
+}
+
+function summarizeFilteringProvider(provider: DohProviderConfig, probes: FilteringProbeResult[] | null, others: Array<FilteringProbeResult[] | null>, asnPrefixes: AsnPrefixEntry[]): FilteringProviderResult {
+  if (!probes) {
+    return { supported: false, blocked_categories: [], categories: {}, note: `${provider.label} 未启用任何请求方式。`, probes: [] };
+  }
+
+  // 同一地址被用于多个不同域名、而参考解析器从未返回同网段地址时，视为拦截页（sinkhole）。
+  // 属于已知 CDN ASN 的地址不参与判断：多个广告、统计域名本就共用 Google 等 CDN 的地址，且随地区调度而不同。
+  const referenceNetworks = new Set(others.flatMap((set) => (set ?? []).flatMap((probe) => probe.ips.map((ip) => describeAnswerAddress(ip, []).network))));
+  const addressUse = new Map<string, number>();
+  probes.forEach((probe) => probe.ips.forEach((ip) => addressUse.set(ip, (addressUse.get(ip) ?? 0) + 1)));
+  const isSinkholeCandidate = (ip: string) => {
+    const address = describeAnswerAddress(ip, asnPrefixes);
+    return (addressUse.get(ip) ?? 0) > 1 && !address.asn && !referenceNetworks.has(address.network);
+  };
+
+  const marked = probes.map((probe, index): FilteringProbeResult => {
+    let { verdict, block_method: blockMethod } = probe;
+    if (verdict === "passed" && probe.ips.every(isSinkholeCandidate)) {
+      verdict = "blocked";
+      blockMethod = "sinkhole";
+    }
+    // 参考解析器同样解析不出的域名无法说明过滤行为。
+    const passedElsewhere = others.some((set) => set?.[index]?.verdict === "passed");
+    if (others.length > 0 && !passedElsewhere && (verdict === "blocked" || verdict === "unavailable")) {
+      verdict = "unavailable";
+      blockMethod = null;
+    }
+    return { ...probe, verdict, block_method: blockMethod };
+  });
+
+  const categories: Record<string, FilteringCategorySummary> = {};
+  for (const probe of marked) {
+    const summary = categories[probe.category] ?? (categories[probe.category] = { blocked: 0, passed: 0, total: 0 });
+    summary.total += 1;
+    if (probe.verdict === "blocked") summary.blocked += 1;
+    if (probe.verdict === "passed") summary.passed += 1;
+  }
+  const blockedCategories = Object.keys(categories).filter((category) => categories[category].blocked > 0);
+  const passedCategories = Object.keys(categories).filter((category) => categories[category].blocked === 0 && categories[category].passed > 0);
+
+  const pieces: string[] = [];
+  if (blockedCategories.length > 0) {
+    pieces.push(`拦截了${blockedCategories.map((category) => describeFilteringCategory(category, categories[category])).join("、")}`);
+  }
+  if (passedCategories.length > 0) {
+    pieces.push(`放行了${passedCategories.map(formatFilteringCategory).join("、")}`);
+  }
+  return {
+    supported: true,
+    blocked_categories: blockedCategories,
+    categories,
+    note: pieces.length > 0 ? `${pieces.join("，")}。` : "未能得到可判定的结果。",
+    probes: marked,
+  };
+}
+
+async function runBenchmarkCheck(targetUrl: string, name: string, samples: number, timeout: number, references: DohProviderConfig[], onProgress?: ProgressReporter): Promise<BenchmarkApiResponse> {
+  const providers: DohProviderConfig[] = [createTargetProvider(targetUrl), ...references];
+  const results = await Promise.all(providers.map((provider) => benchmarkProvider(provider, name, samples, timeout, onProgress)));
+  const providerResults = Object.fromEntries(providers.map(({ key }, index) => [key, results[index]])) as Record<ProviderKey, BenchmarkProviderResult>;
+
+  const target = providerResults[TARGET_PROVIDER_KEY];
+  const measured = target.cached.samples + target.uncached.samples;
+  const failed = target.cached.errors + target.uncached.errors;
+  let status: DohStatus = "success";
+  let message: string;
+  if (!target.supported || measured === failed) {
+    status = "failure";
+    message = target.probes.find((probe) => probe.error && probe.series !== "warmup")?.error ?? target.note;
+  } else {
+    message = `目标 DoH 服务：${describeLatencyStats(target)}。`;
+    if (failed > 0) {
+      status = "partial_match";
+      message += ` ${measured} 次查询中有 ${failed} 次失败。`;
+    }
+    const comparison = references
+      .filter(({ key }) => providerResults[key].cached.p50 !== null)
+      .map(({ key, label }) => `${label} ${describeLatencyStats(providerResults[key])}`);
+    if (comparison.length > 0) {
+      message += ` 参考解析器：${comparison.join("；")}。`;
+    }
+  }
+
+  return {
+    status,
+    message,
+    query: { name, samples },
+    labels: collectProviderLabels(providers),
+    providers: providerResults,
+  };
+}
+
+async function benchmarkProvider(provider: DohProviderConfig, name: string, samples: number, timeout: number, onProgress?: ProgressReporter): Promise<BenchmarkProviderResult> {
+  const selected = selectProbeMode(provider);
+  if (!selected) {
+    const empty = summarizeLatency([]);
+    return { supported: false, mode: null, warmup_ms: null, cached: empty, uncached: empty, note: `${provider.label} 未启用任何请求方式。`, probes: [] };
+  }
+  const { mode, endpoint } = selected;
+
+  // 按顺序逐个查询，避免并发请求相互影响测得的延迟；缓存与非缓存查询交替进行。
+  const plan: Array<{ series: BenchmarkSeries; name: string }> = [{ series: "warmup", name }];
+  for (let i = 0; i < samples; i += 1) {
+    plan.push({ series: "cached", name }, { series: "uncached", name: `${generateProbeLabel("bench")}.${name}` });
+  }
+
+  const probes: BenchmarkProbeResult[] = [];
+  for (const step of plan) {
+    const result = await performDohRequest(endpoint, step.name, "A", timeout, mode);
+    const probe: BenchmarkProbeResult = { ...result, ...step, record_type: "A", supported: true };
+    probes.push(probe);
+    onProgress?.({ type: "attempt", stage: "doh", provider: provider.key, record_type: "A", name: step.name, mode, result: probe });
+  }
+
+  const warmup = probes[0];
+  const cached = summarizeLatency(probes.filter((probe) => probe.series === "cached"));
+  const uncached = summarizeLatency(probes.filter((probe) => probe.series === "uncached"));
+  return {
+    supported: true,
+    mode,
+    warmup_ms: warmup.latency_ms,
+    cached,
+    uncached,
+    note: `使用 ${mode} 方式，预热查询 ${warmup.latency_ms ?? "—"} ms（含建立连接，不计入统计）。`,
+    probes,
+  };
+}
+
+/** 随机子域名通常返回 NXDOMAIN，仍属于有效应答；只有未收到 DNS 响应或返回错误 RCODE 才计为失败。 */
+function summarizeLatency(probes: BenchmarkProbeResult[]): LatencyStats {
+  const succeeded = probes.filter((probe) => probe.latency_ms !== null && probe.answer_status !== undefined && probe.answer_status !== "error");
+  const latencies = succeeded.map((probe) => probe.latency_ms as number);
+  const sorted = [...latencies].sort((a, b) => a - b);
+  const percentile = (ratio: number) => (sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.ceil(ratio * sorted.length) - 1)] : null);
+  const errors = probes.length - succeeded.length;
+  // 抖动取相邻两次查询延迟差的平均绝对值（按查询顺序）。
+  const jitter = latencies.length > 1
+    ? latencies.slice(1).reduce((sum, latency, index) => sum + Math.abs(latency - latencies[index]), 0) / (latencies.length - 1)
+    : null;
+  return {
+    samples: probes.length,
+    errors,
+    error_rate: probes.length > 0 ? Math.round((errors / probes.length) * 1000) / 1000 : 0,
+    min: sorted.length > 0 ? sorted[0] : null,
+    p50: percentile(0.5),
+    p95: percentile(0.95),
+    max: sorted.length > 0 ? sorted[sorted.length - 1] : null,
+    mean: latencies.length > 0 ? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length) : null,
+    jitter: jitter === null ? null : Math.round(jitter * 10) / 10,
+  };
+}
+
+function describeLatencyStats(result: BenchmarkProviderResult): string {
+  const format = (value: number | null) => (value === null ? "—" : `${value} ms`);
+  return `缓存 p50 ${format(result.cached.p50)}、非缓存 p50 ${format(result.uncached.p50)}`;
+}
+
+async function runCacheCheck(targetUrl: string, query: DohQuery, timeout: number, references: DohProviderConfig[], onProgress?: ProgressReporter): Promise<CacheApiResponse> {
+  const providers: DohProviderConfig[] = [createTargetProvider(targetUrl), ...references];
+  const probeSets = await Promise.all(providers.map((provider) => probeCacheProvider(provider, query, timeout, onProgress)));
+  const providerResults = Object.fromEntries(providers.map((provider, index) => [
+    provider.key,
+    classifyCacheBehaviour(provider, probeSets[index], probeSets.filter((_, other) => other !== index && other !== 0)),
+  ])) as Record<ProviderKey, CacheProviderResult>;
+
+  const target = providerResults[TARGET_PROVIDER_KEY];
+  let status: DohStatus = "success";
+  let message: string;
+  if (target.behaviour === "unknown") {
+    status = "failure";
+    message = target.note;
+  } else {
+    message = `目标 DoH 服务判定为「${CACHE_BEHAVIOUR_LABELS[target.behaviour]}」：${target.note}`;
+    if (target.clamping === "raised" || target.clamping === "capped") {
+      message += ` 与参考解析器相比，目标${TTL_CLAMPING_LABELS[target.clamping]}。`;
+    }
+  }
+
+  const referenceSummary = references
+    .map(({ key, label }) => `${label}：${CACHE_BEHAVIOUR_LABELS[providerResults[key].behaviour]}`)
+    .join("，");
+  if (referenceSummary) {
+    message += ` 参考解析器 ${referenceSummary}。`;
+  }
+
+  return {
+    status,
+    message,
+    query: { name: query.name, record_type: query.record_type, samples: CACHE_TTL_SAMPLES, interval_ms: CACHE_PROBE_INTERVAL_MS },
+    labels: collectProviderLabels(providers),
+    providers: providerResults,
+  };
+}
+
+async function probeCacheProvider(provider: DohProviderConfig, query: DohQuery, timeout: number, onProgress?: ProgressReporter): Promise<{ mode: DohRequestMode; probes: CacheProbeResult[] } | null> {
+  const selected = selectProbeMode(provider);
+  if (!selected) return null;
+  const { mode, endpoint } = selected;
+  const started = Date.now();
+  const probes: CacheProbeResult[] = [];
+
+  const run = async (name: string, series: CacheProbeResult["series"], recordType: string) => {
+    const elapsed = Date.now() - started;
+    const result = await performDohRequest(endpoint, name, recordType, timeout, mode);
+    const answer = result.records?.find((record) => record.type === recordType.toUpperCase());
+    const probe: CacheProbeResult = { ...result, name, series, record_type: recordType, supported: true, elapsed_ms: elapsed, ttl: answer?.ttl ?? null };
+    probes.push(probe);
+    onProgress?.({ type: "attempt", stage: "doh", provider: provider.key, record_type: recordType, name, mode, result: probe });
+  };
+
+  // 冷/热查询使用全新的随机名称：首次必然未命中缓存，紧接着的第二次若明显更快则说明有缓存（此处缓存的是否定应答）。
+  const fresh = `${generateProbeLabel("cache")}.${query.name}`;
+  await run(fresh, "cold", "A");
+  await run(fresh, "warm", "A");
+  for (let i = 0; i < CACHE_TTL_SAMPLES; i += 1) {
+    if (i > 0) await new Promise((resolve) => setTimeout(resolve, CACHE_PROBE_INTERVAL_MS));
+    await run(query.name, "ttl", query.record_type);
+  }
+  return { mode, probes };
+}
+
+function classifyCacheBehaviour(provider: DohProviderConfig, probeSet: { mode: DohRequestMode; probes: CacheProbeResult[] } | null, others: Array<{ probes: CacheProbeResult[] } | null>): CacheProviderResult {
+  if (!probeSet) {
+    return {
+      supported: false, mode: null, behaviour: "unknown", ttls: [], ttl_min: null, ttl_max: null, ttl_resets: 0,
+      clamping: "unknown", cold_ms: null, warm_ms: null, note: `${provider.label} 未启用任何请求方式。`, probes: [],
+    };
+  }
+
+  const { mode, probes } = probeSet;
+  const samples = probes.filter((probe) => probe.series === "ttl");
+  const observed = samples.filter((probe): probe is CacheProbeResult & { ttl: number } => probe.ttl !== null);
+  const ttls = observed.map((probe) => probe.ttl);
+  const coldMs = probes.find((probe) => probe.series === "cold")?.latency_ms ?? null;
+  const warmMs = probes.find((probe) => probe.series === "warm")?.latency_ms ?? null;
+
+  let decreases = 0;
+  let resets = 0;
+  for (let i = 1; i < observed.length; i += 1) {
+    const previous = observed[i - 1];
+    const current = observed[i];
+    const gap = Math.ceil((current.elapsed_ms - previous.elapsed_ms) / 1000);
+    if (current.ttl < previous.ttl) decreases += 1;
+    // 上一次的 TTL 还未到期却变大，说明本次应答来自另一份缓存；TTL 已到期后的回升属于正常刷新。
+    if (current.ttl > previous.ttl && previous.ttl > gap) resets += 1;
+  }
+
+  const referenceTtls = others.flatMap((set) => (set?.probes ?? []).filter((probe) => probe.series === "ttl" && probe.ttl !== null).map((probe) => probe.ttl as number));
+  let clamping: TtlClamping = "unknown";
+  if (ttls.length > 0 && referenceTtls.length > 0) {
+    if (Math.min(...ttls) > Math.max(...referenceTtls) + 1) clamping = "raised";
+    else if (Math.max(...ttls) < Math.min(...referenceTtls) - CACHE_TTL_SAMPLES) clamping = "capped";
+    else clamping = "none";
+  }
+
+  const latency = coldMs !== null && warmMs !== null ? `冷查询 ${coldMs} ms，热查询 ${warmMs} ms。` : "";
+  let behaviour: CacheBehaviour;
+  let note: string;
+  if (observed.length < 2) {
+    behaviour = "unknown";
+    note = samples.find((probe) => probe.error)?.error ?? "未能获得足够的 TTL 样本，无法判断。";
+  } else if (resets > 0) {
+    behaviour = "multiple_caches";
+    note = `TTL 序列 ${ttls.join(" → ")} 中出现 ${resets} 次未到期回升，应答来自多个互不共享的后端缓存。${latency}`;
+  } else if (decreases > 0) {
+    behaviour = "caching";
+    note = `TTL 随时间递减（${ttls.join(" → ")}），应答来自缓存。${latency}`;
+  } else if (coldMs !== null && warmMs !== null && warmMs * 2 < coldMs && coldMs - warmMs >= CACHE_WARM_MARGIN_MS) {
+    behaviour = "caching";
+    note = `TTL 始终为 ${ttls[0]} 未递减，但热查询明显快于冷查询，可能缓存了应答却返回原始 TTL。${latency}`;
+  } else {
+    behaviour = "pass_through";
+    note = `TTL 始终为 ${ttls[0]} 未递减，可能每次都转发至上游或权威服务器。${latency}`;
+  }
+
+  return {
+    supported: true,
+    mode,
+    behaviour,
+    ttls: samples.map((probe) => ({ elapsed_ms: probe.elapsed_ms, ttl: probe.ttl })),
+    ttl_min: ttls.length > 0 ? Math.min(...ttls) : null,
+    ttl_max: ttls.length > 0 ? Math.max(...ttls) : null,
+    ttl_resets: resets,
+    clamping,
+    cold_ms: coldMs,
+    warm_ms: warmMs,
+    note,
+    probes,
+  };
+}
+
+function formatFilteringCategory(category: string): string {
+  return FILTERING_CATEGORY_LABELS[category] ?? category;
+}
+
+function describeFilteringCategory(category: string, summary: FilteringCategorySummary): string {
+  return `${formatFilteringCategory(category)}（${summary.blocked}/${summary.total}）`;
+}
+
+function describeNxdomainResult(result: NxdomainProviderResult): string {
+  const label = NXDOMAIN_BEHAVIOUR_LABELS[result.behaviour];
+  return result.rewritten_ips.length > 0 ? `${label}（${result.rewritten_ips.join("、")}）` : label;
+}
+
+function classifyDnssecBehaviour(chainStatus: DnssecChainStatus, result: DohProviderResult, signaturesValid: boolean | null): DnssecProviderVerdict {
+  const info = result.dnssec ?? { ad: null, cd: null, rrsig_count: 0 };
+  const verdict = (behaviour: DnssecBehaviour, note: string): DnssecProviderVerdict => ({ ...info, signatures_valid: signaturesValid, behaviour, note });
+
+  if (chainStatus === "insecure") {
+    return verdict("unsigned", info.ad ? "域名未签名，但解析器置位了 AD，行为异常。" : "域名未签名，无法判断验证行为。");
+  }
+  if (chainStatus === "indeterminate") {
+    return verdict("unknown", "未能独立完成链验证，无法判断验证行为。");
+  }
+  if (chainStatus === "bogus") {
+    return result.ok
+      ? verdict("non_validating", "域名签名无效，解析器仍返回了结果，未执行验证。")
+      : verdict("validating", "域名签名无效，解析器拒绝返回结果，推测执行了验证。");
+  }
+  if (!result.ok) {
+    return verdict("unknown", result.error ?? "查询失败，无法判断验证行为。");
+  }
+  if (signaturesValid === false) {
+    return verdict(info.ad ? "validating" : "non_validating", "返回的 RRSIG 无法通过验证，应答可能被篡改。");
+  }
+  if (info.ad) {
+    return verdict("validating", "应答置位 AD，解析器已完成 DNSSEC 验证。");
+  }
+  if (info.rrsig_count === 0) {
+    return verdict("stripping", "未返回 RRSIG，可能剥离了签名或忽略了 DO 位。");
+  }
+  return verdict("non_validating", "返回了 RRSIG 但未置位 AD，未执行验证。");
+}
+
+async function verifyProviderSignatures(context: DnssecContext, result: DohProviderResult): Promise<boolean | null> {
+  const wire = (result.mode_results ?? []).find((item) => item.ok && item.response_format === "wire");
+  const base64 = (wire?.raw as { base64?: string } | undefined)?.base64;
+  if (!base64) return null;
+
+  try {
+    const message = parseDnsMessage(base64ToBytes(base64).buffer as ArrayBuffer);
+    let verifiedAny = false;
+    for (const records of groupDnssecRrsets(message.answers)) {
+      // 未附带签名的 RRset 由 stripping 判定处理，这里只校验实际返回的 RRSIG。
+      const signatures = findCoveringSignatures(message, records);
+      if (signatures.length === 0) continue;
+      const zone = await resolveDnssecZoneKeys(context, signatures[0].signer);
+      if (zone.status === "bogus") return false;
+      // 未签名的委派或不支持的算法无法判断签名真伪，不计入结果。
+      if (zone.status !== "secure") continue;
+      const verified = await verifyDnssecRrset(message, records, signatures, zone.keys);
+      if (verified.unsupported) continue;
+      if (!verified.valid) return false;
+      verifiedAny = true;
+    }
+    return verifiedAny ? true : null;
+  } catch {
+    return null;
+  }
+}
+
+function createEchFailureResult(reason: unknown): EchProviderResult {
+  return {
+    found: false,
+    record: undefined,
+    status: null,
+    latency_ms: null,
+    attempted_formats: [],
+    response_format: "unknown",
+    content_type: null,
+    error: normalizeErrorMessage(reason),
+  };
+}
+
+function createTargetProvider(endpoint: string): DohProviderConfig {
+  return {
+    key: TARGET_PROVIDER_KEY,
+    label: "目标 DoH",
+    endpoints: { json: endpoint, rfc8484: endpoint },
+    formats: [...DOH_REQUEST_MODES],
+  };
+}
+
+/** 携带 API Key 的请求扣减该 Key 自己的配额并记录用量，不再计入每个 IP 的限额。 */
+function createClientRateLimitCharge(request: Request, env: Env, apiKey: ApiKey | null, cost: number): RateLimitCharge {
+  if (apiKey) {
+    return createKeyRateLimitCharge(apiKey, env, cost);
+  }
+  const ip = request.headers.get("CF-Connecting-IP") ?? "unknown";
+  return { key: `ip:${ip}`, scope: "ip", subject: ip, rule: parseRateLimitRule(env.RATE_LIMIT_PER_IP, DEFAULT_RATE_LIMIT_PER_IP, "RATE_LIMIT_PER_IP"), cost };
+}
+
+function createKeyRateLimitCharge(apiKey: ApiKey, env: Env, cost: number): RateLimitCharge {
+  const rule = apiKey.quota ?? parseRateLimitRule(env.RATE_LIMIT_PER_KEY, DEFAULT_RATE_LIMIT_PER_KEY, "RATE_LIMIT_PER_KEY");
+  return { key: `key:${apiKey.id}`, scope: "key", subject: apiKey.id, rule, cost, track_usage: true };
+}
+
+function createTargetRateLimitCharge(task: CheckTask, env: Env, cost: number): RateLimitCharge {
+  let host = task.target.toLowerCase();
+  if (task.mode !== "ech") {
+    try {
+      host = new URL(task.target).hostname.toLowerCase();
+    } catch {
+      // 无效 URL 会在目标校验中被拒绝，这里按原文计数即可。
+    }
+  }
+  return { key: `target:${host}`, scope: "target", subject: host, rule: parseRateLimitRule(env.RATE_LIMIT_PER_TARGET, DEFAULT_RATE_LIMIT_PER_TARGET, "RATE_LIMIT_PER_TARGET"), cost };
+}
+
+/**
+ * 依次扣减各计数键（每个键一次 Durable Object 调用）；某个键超限时撤销此前已扣减的键，被拒绝的请求不消耗任何限额。
+ */
+async function enforceRateLimits(env: Env, charges: RateLimitCharge[]): Promise<Response | null> {
+  if (!env.RATE_LIMITER) return null;
+  const limiter = env.RATE_LIMITER;
+
+  // 同一计数键的多次扣减合并为一次（批量请求中同一目标的多个检测项）。
+  const merged = new Map<string, RateLimitCharge>();
+  for (const charge of charges) {
+    if ((charge.rule.limit === 0 && !charge.track_usage) || charge.cost === 0) continue;
+    const existing = merged.get(charge.key);
+    merged.set(charge.key, existing ? { ...existing, cost: existing.cost + charge.cost } : charge);
+  }
+
+  const committed: Array<{ charge: RateLimitCharge; receipt: RateLimitReceipt }> = [];
+  for (const charge of merged.values()) {
+    const decision = await chargeRateLimiter(limiter, charge);
+    if (!decision.allowed) {
+      await Promise.all(committed.map(({ charge: done, receipt }) => chargeRateLimiter(limiter, done, receipt)));
+      return createRateLimitResponse(charge, decision);
+    }
+    if (decision.receipt) {
+      committed.push({ charge, receipt: decision.receipt });
+    }
+  }
+  return null;
+}
+
+/** 扣减限额需要的 Durable Object 调用次数，即去重后的计数键数。 */
+function countRateLimitCalls(env: Env, charges: RateLimitCharge[]): number {
+  if (!env.RATE_LIMITER) return 0;
+  return new Set(charges.filter((charge) => (charge.rule.limit > 0 || charge.track_usage) && charge.cost > 0).map((charge) => charge.key)).size;
+}
+
+async function chargeRateLimiter(limiter: DurableObjectNamespace, charge: RateLimitCharge, refund?: RateLimitReceipt): Promise<RateLimitDecision> {
+  const stub = limiter.get(limiter.idFromName(charge.key));
+  const response = await stub.fetch("https://rate-limiter/charge", {
+    method: "POST",
+    headers: JSON_HEADERS,
+    body: JSON.stringify({ charge, refund }),
+  });
+  return response.json<RateLimitDecision>();
+}
+
+function describeRateLimitWindow(charge: RateLimitCharge, hits: number[], now: number, usage: ApiKeyUsage | undefined): RateLimitDecision {
+  const remaining = Math.max(charge.rule.limit - hits.length, 0);
+  if (charge.rule.limit === 0 || hits.length + charge.cost <= charge.rule.limit) {
+    return { allowed: true, remaining, retry_after_ms: 0, usage };
+  }
+  // 需要等最早的若干次记录滑出窗口；单次消耗超过上限时永远无法满足，按整个窗口返回。
+  const waitFor = charge.cost > charge.rule.limit ? now : hits[hits.length + charge.cost - charge.rule.limit - 1];
+  return { allowed: false, remaining, retry_after_ms: waitFor + charge.rule.window_ms - now, usage };
+}
+
+function createEmptyUsage(): ApiKeyUsage {
+  return { total: 0, rejected: 0, first_used_at: null, last_used_at: null, daily: {} };
+}
+
+function revokeUsage(usage: ApiKeyUsage, cost: number, now: Date): void {
+  const day = now.toISOString().slice(0, 10);
+  usage.total = Math.max(usage.total - cost, 0);
+  usage.rejected += cost;
+  if (usage.daily[day] !== undefined) {
+    usage.daily[day] = Math.max(usage.daily[day] - cost, 0);
+  }
+}
+
+function recordUsage(usage: ApiKeyUsage, cost: number, now: Date): void {
+  const day = now.toISOString().slice(0, 10);
+  usage.total += cost;
+  usage.first_used_at ??= now.toISOString();
+  usage.last_used_at = now.toISOString();
+  usage.daily[day] = (usage.daily[day] ?? 0) + cost;
+  const days = Object.keys(usage.daily).sort();
+  for (const stale of days.slice(0, Math.max(days.length - API_KEY_USAGE_DAYS, 0))) {
+    delete usage.daily[stale];
+  }
+}
+
+async function handleUsageRequest(env: Env, apiKey: ApiKey | null): Promise<Response> {
+  if (!apiKey) {
+    return createErrorResponse("查询用量需要在 Authorization 头中提供 API Key", 401);
+  }
+  if (!env.RATE_LIMITER) {
+    return createErrorResponse("未绑定 RATE_LIMITER，无法统计 API Key 用量", 404);
+  }
+  const charge = createKeyRateLimitCharge(apiKey, env, 0);
+  const decision = await chargeRateLimiter(env.RATE_LIMITER, charge);
+  return createJsonResponse({
+    id: apiKey.id,
+    quota: charge.rule.limit > 0 ? { limit: charge.rule.limit, window_seconds: charge.rule.window_ms / 1000, remaining: decision.remaining } : null,
+    modes: apiKey.modes,
+    origins: apiKey.origins,
+    usage: decision.usage ?? createEmptyUsage(),
+  });
+}
+
+async function authenticateRequest(request: Request, env: Env): Promise<ClientAuth> {
+  const unauthorized = (message: string): ClientAuth => {
+    const response = createErrorResponse(message, 401);
+    response.headers.set("WWW-Authenticate", 'Bearer realm="doh-ech-check"');
+    return { ok: false, response };
+  };
+
+  const header = request.headers.get("Authorization");
+  if (!header) {
+    return env.ALLOW_ANONYMOUS?.trim().toLowerCase() === "false"
+      ? unauthorized("此部署已关闭匿名访问，请在 Authorization 头中提供 API Key")
+      : { ok: true, key: null };
+  }
+
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    return unauthorized("Authorization 头必须形如 Bearer <API Key>");
+  }
+  const digest = await sha256Hex(match[1]);
+  const apiKey = (await loadApiKeys(env)).find((candidate) => candidate.token_sha256 === digest);
+  if (!apiKey) {
+    return unauthorized("API Key 无效");
+  }
+
+  // 未携带 Origin 的请求（脚本、CI）不受来源列表限制。
+  const origin = request.headers.get("Origin");
+  if (apiKey.origins && origin && !apiKey.origins.includes(origin.toLowerCase())) {
+    return { ok: false, response: createErrorResponse(`API Key ${apiKey.id} 不允许来自 ${origin} 的请求`, 403) };
+  }
+  return { ok: true, key: apiKey };
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function createRateLimitResponse(charge: RateLimitCharge, decision: RateLimitDecision): Response {
+  const retryAfter = Math.max(Math.ceil(decision.retry_after_ms / 1000), 1);
+  const windowSeconds = charge.rule.window_ms / 1000;
+  const scope = charge.scope === "ip" ? `每个 IP（${charge.subject}）` : charge.scope === "key" ? `API Key ${charge.subject} ` : `目标 ${charge.subject} `;
+  const message = charge.cost > charge.rule.limit
+    ? `本次请求需要 ${charge.cost} 次检测，超过${scope}每 ${windowSeconds} 秒 ${charge.rule.limit} 次的上限，请减少检测项。`
+    : `请求过于频繁：${scope}每 ${windowSeconds} 秒最多检测 ${charge.rule.limit} 次，请在 ${retryAfter} 秒后重试。`;
+  return createJsonResponse(
+    { status: "error", message, retry_after: retryAfter },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } }
+  );
+}
+
+function parseRateLimitRule(setting: string | undefined, fallback: string, name: string): RateLimitRule {
+  const text = setting?.trim() || fallback;
+  const match = text.match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!match || Number(match[2]) <= 0) {
+    throw new ConfigurationError(`${name} 必须形如 "<次数>/<秒数>"，例如 "${fallback}"；次数为 0 表示不限制。`);
+  }
+  return { limit: Number(match[1]), window_ms: Number(match[2]) * 1000 };
+}
+
+async function validateCheckTarget(task: CheckTask, context: CheckContext): Promise<TargetValidation> {
+  // ECH 模式的 target 是域名，只会交给参考解析器查询，不会被直接请求。
+  if (task.mode === "ech") return { ok: true, lookups: 0 };
+  return validateTargetUrl(task.target, context);
+}
+
+async function validateTargetUrl(target: string, context: CheckContext): Promise<TargetValidation> {
+  const policy = context.target_policy();
+  const reject = (message: string, lookups = 0): TargetValidation => ({ ok: false, message, lookups });
+
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return reject("target 不是有效的 URL。");
+  }
+  if (url.protocol !== "https:") {
+    return reject("target 必须使用 https 协议。");
+  }
+  if (url.username || url.password) {
+    return reject("target 不能包含用户名或密码。");
+  }
+  const port = url.port ? Number(url.port) : DEFAULT_TARGET_PORT;
+  if (policy.allowed_ports.length > 0 && !policy.allowed_ports.includes(port)) {
+    return reject(`target 端口 ${port} 不在允许的端口（${policy.allowed_ports.join("、")}）之内。`);
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "").replace(/\.$/, "").toLowerCase();
+  const literal = ipToBytes(host);
+  if (matchTargetRules(policy.deny, host, literal)) {
+    return reject(`target 主机 ${host} 在拒绝列表中。`);
+  }
+  if (policy.allow.length > 0 && !matchTargetRules(policy.allow, host, literal)) {
+    return reject(`target 主机 ${host} 不在允许列表中。`);
+  }
+  if (literal) {
+    const range = findBlockedTargetRange(literal);
+    return range ? reject(`target 地址 ${host} 属于${range}，不允许检测。`) : { ok: true, lookups: 0 };
+  }
+  if (!host.includes(".") || host === "localhost" || host.endsWith(".localhost")) {
+    return reject(`target 主机 ${host} 不是公网域名。`);
+  }
+
+  // 主机名经参考解析器解析，A 与 AAAA 中任一地址落入内网或拒绝列表即拒绝。
+  const resolver = context.references.find((provider) => selectProbeMode(provider));
+  const selected = resolver ? selectProbeMode(resolver) : null;
+  if (!resolver || !selected) {
+    return reject("没有可用于解析 target 主机名的参考解析器，未能完成安全校验。");
+  }
+  const lookups = await Promise.all(TARGET_VALIDATION_RECORD_TYPES.map((recordType) =>
+    performDohRequest(selected.endpoint, host, recordType, context.timeout, selected.mode)));
+  if (lookups.every((lookup) => !lookup.header)) {
+    return reject(`无法通过 ${resolver.label} 解析 target 主机 ${host}，未能完成安全校验。`, lookups.length);
+  }
+  for (const ip of lookups.flatMap((lookup) => lookup.ips)) {
+    const bytes = ipToBytes(ip);
+    if (!bytes) continue;
+    const range = findBlockedTargetRange(bytes);
+    if (range) {
+      return reject(`target 主机 ${host} 解析到${range} ${ip}，不允许检测。`, lookups.length);
+    }
+    if (matchTargetRules(policy.deny, null, bytes)) {
+      return reject(`target 主机 ${host} 解析到拒绝列表中的地址 ${ip}。`, lookups.length);
+    }
+  }
+  return { ok: true, lookups: lookups.length };
+}
+
+function findBlockedTargetRange(bytes: Uint8Array): string | null {
+  // IPv4 映射地址（::ffff:0:0/96）与 NAT64 地址（64:ff9b::/96）按内嵌的 IPv4 地址判断。
+  if (bytes.length === 16) {
+    const mapped = bytes.subarray(0, 10).every((byte) => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+    const nat64 = bytes[0] === 0x00 && bytes[1] === 0x64 && bytes[2] === 0xff && bytes[3] === 0x9b && bytes.subarray(4, 12).every((byte) => byte === 0);
+    if (mapped || nat64) return findBlockedTargetRange(bytes.slice(12));
+  }
+  for (const { cidr, label } of BLOCKED_TARGET_RANGES) {
+    const network = parseClientSubnet(cidr);
+    if (network && (network.family === 1) === (bytes.length === 4) && prefixContains(network, bytes)) {
+      return label;
+    }
+  }
+  return null;
+}
+
+function matchTargetRules(rules: TargetRule[], host: string | null, address: Uint8Array | null): boolean {
+  return rules.some((rule) => {
+    if (rule.type === "cidr") {
+      return address !== null && (rule.family === 1) === (address.length === 4) && prefixContains(rule, address);
+    }
+    if (host === null) return false;
+    return rule.wildcard ? host.endsWith(`.${rule.host}`) : host === rule.host;
+  });
+}
+
+function collectProviderLabels(providers: DohProviderConfig[]): Record<ProviderKey, string> {
+  return Object.fromEntries(providers.map(({ key, label }) => [key, label]));
+}
+
+function formatProviderLabels(providers: DohProviderConfig[]): string {
+  return providers.map(({ label }) => label).join("、");
+}
+
+async function loadReferenceResolvers(env: Env): Promise<DohProviderConfig[]> {
+  if (env.RESOLVERS_KV) {
+    const stored = await env.RESOLVERS_KV.get(RESOLVERS_KV_KEY);
+    if (stored) return parseReferenceResolvers(stored, `RESOLVERS_KV:${RESOLVERS_KV_KEY}`);
+  }
+  if (env.REFERENCE_RESOLVERS?.trim()) {
+    return parseReferenceResolvers(env.REFERENCE_RESOLVERS, "REFERENCE_RESOLVERS");
+  }
+  return DEFAULT_REFERENCE_RESOLVERS.map((provider) => ({
+    ...provider,
+    endpoints: { ...provider.endpoints },
+    formats: [...provider.formats],
+  }));
+}
+
+async function loadAsnPrefixes(env: Env): Promise<AsnPrefixEntry[]> {
+  const configured: AsnPrefixEntry[] = [];
+  const stored = env.RESOLVERS_KV ? await env.RESOLVERS_KV.get(ASN_PREFIXES_KV_KEY) : null;
+  if (stored) {
+    configured.push(...parseAsnPrefixes(stored, `RESOLVERS_KV:${ASN_PREFIXES_KV_KEY}`));
+  } else if (env.ASN_PREFIXES?.trim()) {
+    configured.push(...parseAsnPrefixes(env.ASN_PREFIXES, "ASN_PREFIXES"));
+  }
+  // 配置的前缀排在前面，与内置表中同长度的前缀冲突时以配置为准。
+  return [...configured, ...expandAsnPrefixGroups(BUNDLED_ASN_PREFIXES, "BUNDLED_ASN_PREFIXES")];
+}
+
+async function loadFilteringCanaries(env: Env): Promise<FilteringCanary[]> {
+  const stored = env.RESOLVERS_KV ? await env.RESOLVERS_KV.get(FILTERING_CANARIES_KV_KEY) : null;
+  const configured = stored
+    ? parseFilteringCanaries(stored, `RESOLVERS_KV:${FILTERING_CANARIES_KV_KEY}`)
+    : env.FILTERING_CANARIES?.trim() ? parseFilteringCanaries(env.FILTERING_CANARIES, "FILTERING_CANARIES") : [];
+  const merged = new Map<string, FilteringCanary>();
+  for (const canary of [...BUNDLED_FILTERING_CANARIES, ...configured]) {
+    merged.set(canary.name, canary);
+  }
+  if (merged.size > MAX_FILTERING_CANARIES) {
+    throw new ConfigurationError(`过滤检测域名共 ${merged.size} 个，超过上限 ${MAX_FILTERING_CANARIES}。`);
+  }
+  return Array.from(merged.values());
+}
+
+function parseFilteringCanaries(source: string, origin: string): FilteringCanary[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(source);
+  } catch (error) {
+    throw new ConfigurationError(`${origin} 不是有效的 JSON：${normalizeErrorMessage(error)}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new ConfigurationError(`${origin} 必须是数组。`);
+  }
+  return parsed.map((entry, index) => {
+    const { name, category } = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+    if (typeof name !== "string" || !name.trim()) {
+      throw new ConfigurationError(`${origin}[${index}].name 必须是非空域名。`);
+    }
+    if (typeof category !== "string" || !/^[a-z0-9_-]+$/i.test(category)) {
+      throw new ConfigurationError(`${origin}[${index}].category 必须由字母、数字、下划线或连字符组成。`);
+    }
+    return { name: normalizeDomain(name), category };
+  });
+}
+
+async function loadWatchList(env: Env): Promise<WatchItem[]> {
+  const testDomain = env.DEFAULT_TEST_DOMAIN?.trim() || "linux.do";
+  const stored = env.RESOLVERS_KV ? await env.RESOLVERS_KV.get(WATCH_LIST_KV_KEY) : null;
+  if (stored) return parseWatchList(stored, `RESOLVERS_KV:${WATCH_LIST_KV_KEY}`, testDomain);
+  return env.WATCH_LIST?.trim() ? parseWatchList(env.WATCH_LIST, "WATCH_LIST", testDomain) : [];
+}
+
+function parseWatchList(source: string, origin: string, testDomain: string): WatchItem[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(source);
+  } catch (error) {
+    throw new ConfigurationError(`${origin} 不是有效的 JSON：${normalizeErrorMessage(error)}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new ConfigurationError(`${origin} 必须是数组。`);
+  }
+  const seen = new Set<string>();
+  return parsed.map((entry, index) => {
+    const body = (entry && typeof entry === "object" ? entry : {}) as CheckRequestBody & { id?: unknown };
+    if (body.mode !== "doh" && body.mode !== "ech") {
+      throw new ConfigurationError(`${origin}[${index}].mode 必须是 'doh' 或 'ech'。`);
+    }
+    if (body.id !== undefined && (typeof body.id !== "string" || !/^[a-z0-9_.:-]+$/i.test(body.id))) {
+      throw new ConfigurationError(`${origin}[${index}].id 必须由字母、数字、下划线、点、冒号或连字符组成。`);
+    }
+    const result = parseCheckTask(body, testDomain);
+    if (!result.ok) {
+      throw new ConfigurationError(`${origin}[${index}]：${result.message}`);
+    }
+    const { task } = result;
+    const watchTask: WatchTask = task.mode === "doh"
+      ? { mode: "doh", target: task.target, query: task.query }
+      : { mode: "ech", target: task.target };
+    const id = typeof body.id === "string"
+      ? body.id
+      : watchTask.mode === "doh"
+        ? `doh:${watchTask.target}#${watchTask.query.name}/${watchTask.query.record_type}`
+        : `ech:${watchTask.target}`;
+    if (seen.has(id)) {
+      throw new ConfigurationError(`${origin}[${index}] 与前面的监控项重复（id：${id}），请通过 id 字段区分。`);
+    }
+    seen.add(id);
+    return { id, task: watchTask };
+  });
+}
+
+function parseAlertWebhooks(source: string, origin: string): AlertWebhook[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(source);
+  } catch (error) {
+    throw new ConfigurationError(`${origin} 不是有效的 JSON：${normalizeErrorMessage(error)}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new ConfigurationError(`${origin} 必须是数组。`);
+  }
+  return parsed.map((entry, index) => {
+    const { type, url, chat_id: chatId } = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+    if (typeof type !== "string" || !ALERT_WEBHOOK_TYPES.includes(type as AlertWebhookType)) {
+      throw new ConfigurationError(`${origin}[${index}].type 必须是 ${ALERT_WEBHOOK_TYPES.map((item) => `'${item}'`).join("、")} 之一。`);
+    }
+    if (typeof url !== "string" || !/^https?:\/\//i.test(url)) {
+      throw new ConfigurationError(`${origin}[${index}].url 必须是 http(s) 地址。`);
+    }
+    if (type === "telegram" && typeof chatId !== "string" && typeof chatId !== "number") {
+      throw new ConfigurationError(`${origin}[${index}].chat_id 不能为空（telegram 类型必填）。`);
+    }
+    return { type: type as AlertWebhookType, url, chat_id: chatId === undefined ? undefined : String(chatId) };
+  });
+}
+
+async function loadApiKeys(env: Env): Promise<ApiKey[]> {
+  // Secret 与 KV 中的 Key 合并生效，便于在不重新部署的情况下通过 KV 增删 Key。
+  const stored = env.RESOLVERS_KV ? await env.RESOLVERS_KV.get(API_KEYS_KV_KEY) : null;
+  const entries = [
+    ...(env.API_KEYS?.trim() ? parseApiKeys(env.API_KEYS, "API_KEYS") : []),
+    ...(stored ? parseApiKeys(stored, `RESOLVERS_KV:${API_KEYS_KV_KEY}`) : []),
+  ];
+  const seen = new Set<string>();
+  for (const { id } of entries) {
+    if (seen.has(id)) {
+      throw new ConfigurationError(`API Key id ${id} 重复。`);
+    }
+    seen.add(id);
+  }
+  return Promise.all(entries.map(async ({ token, token_sha256: tokenSha256, ...rest }) => ({
+    ...rest,
+    token_sha256: tokenSha256 ?? await sha256Hex(token ?? ""),
+  })));
+}
+
+function parseApiKeys(source: string, origin: string): Array<Omit<ApiKey, "token_sha256"> & { token?: string; token_sha256?: string }> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(source);
+  } catch (error) {
+    throw new ConfigurationError(`${origin} 不是有效的 JSON：${normalizeErrorMessage(error)}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new ConfigurationError(`${origin} 必须是数组。`);
+  }
+  return parsed.map((entry, index) => {
+    const { id, token, token_sha256: tokenSha256, quota, modes, origins, monitor } = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+    if (typeof id !== "string" || !/^[a-z0-9_.-]+$/i.test(id)) {
+      throw new ConfigurationError(`${origin}[${index}].id 必须由字母、数字、下划线、点或连字符组成。`);
+    }
+    if (typeof tokenSha256 === "string") {
+      if (!/^[0-9a-f]{64}$/i.test(tokenSha256)) {
+        throw new ConfigurationError(`${origin}[${index}].token_sha256 必须是 64 位十六进制 SHA-256 摘要。`);
+      }
+    } else if (typeof token !== "string" || token.length < 16 || /\s/.test(token)) {
+      throw new ConfigurationError(`${origin}[${index}] 必须提供 token（至少 16 个非空白字符）或 token_sha256。`);
+    }
+    if (quota !== undefined && typeof quota !== "string") {
+      throw new ConfigurationError(`${origin}[${index}].quota 必须形如 "<次数>/<秒数>"。`);
+    }
+    if (modes !== undefined && (!Array.isArray(modes) || modes.some((mode) => !CHECK_MODES.includes(mode as Mode)))) {
+      throw new ConfigurationError(`${origin}[${index}].modes 必须是由 ${CHECK_MODES.map((item) => `'${item}'`).join("、")} 组成的数组。`);
+    }
+    if (origins !== undefined && (!Array.isArray(origins) || origins.some((item) => typeof item !== "string" || !/^https?:\/\/[^/]+$/i.test(item)))) {
+      throw new ConfigurationError(`${origin}[${index}].origins 必须是形如 https://example.com 的来源数组。`);
+    }
+    if (monitor !== undefined && typeof monitor !== "boolean") {
+      throw new ConfigurationError(`${origin}[${index}].monitor 必须是布尔值。`);
+    }
+    return {
+      id,
+      token: typeof token === "string" ? token : undefined,
+      token_sha256: typeof tokenSha256 === "string" ? tokenSha256.toLowerCase() : undefined,
+      quota: typeof quota === "string" ? parseRateLimitRule(quota, DEFAULT_RATE_LIMIT_PER_KEY, `${origin}[${index}].quota`) : null,
+      modes: modes ? (modes as Mode[]) : null,
+      origins: origins ? (origins as string[]).map((item) => item.toLowerCase()) : null,
+      monitor: monitor === true,
+    };
+  });
+}
+
+function parseTargetPolicy(env: Env): TargetPolicy {
+  const ports = (env.TARGET_ALLOWED_PORTS ?? "").split(/[\s,]+/).filter(Boolean).map((text) => {
+    const port = Number(text);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new ConfigurationError(`TARGET_ALLOWED_PORTS 中的 ${text} 不是有效的端口。`);
+    }
+    return port;
+  });
+  return {
+    allowed_ports: ports,
+    allow: parseTargetRules(env.TARGET_ALLOWLIST, "TARGET_ALLOWLIST"),
+    deny: parseTargetRules(env.TARGET_DENYLIST, "TARGET_DENYLIST"),
+  };
+}
+
+function parseTargetRules(source: string | undefined, origin: string): TargetRule[] {
+  return (source ?? "").split(/[\s,]+/).filter(Boolean).map((text): TargetRule => {
+    if (text.includes("/")) {
+      const subnet = parseClientSubnet(text);
+      if (!subnet) {
+        throw new ConfigurationError(`${origin} 中的 ${text} 不是有效的 CIDR。`);
+      }
+      return { type: "cidr", ...subnet };
+    }
+    const wildcard = text.startsWith("*.");
+    const host = (wildcard ? text.slice(2) : text).replace(/^\[|\]$/g, "").replace(/\.$/, "").toLowerCase();
+    if (!host || /[^a-z0-9.:_-]/.test(host)) {
+      throw new ConfigurationError(`${origin} 中的 ${text} 不是有效的主机名。`);
+    }
+    return { type: "host", host, wildcard };
+  });
+}
+
+function parseAsnPrefixes(source: string, origin: string): AsnPrefixEntry[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(source);
+  } catch (error) {
+    throw new ConfigurationError(`${origin} 不是有效的 JSON：${normalizeErrorMessage(error)}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new ConfigurationError(`${origin} 必须是数组。`);
+  }
+  return expandAsnPrefixGroups(parsed.map((entry, index) => {
+    const { asn, name, prefixes } = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+    if (typeof asn !== "number" || !Number.isInteger(asn) || asn <= 0) {
+      throw new ConfigurationError(`${origin}[${index}].asn 必须是正整数。`);
+    }
+    if (!Array.isArray(prefixes) || prefixes.some((prefix) => typeof prefix !== "string")) {
+      throw new ConfigurationError(`${origin}[${index}].prefixes 必须是 CIDR 字符串数组。`);
+    }
+    return { asn, name: typeof name === "string" && name.trim() ? name.trim() : `AS${asn}`, prefixes: prefixes as string[] };
+  }), origin);
+}
+
+function expandAsnPrefixGroups(groups: readonly AsnPrefixGroup[], origin: string): AsnPrefixEntry[] {
+  return groups.flatMap(({ asn, name, prefixes }) => prefixes.map((text) => {
+    const subnet = text.includes("/") ? parseClientSubnet(text) : null;
+    if (!subnet) {
+      throw new ConfigurationError(`${origin} 中的 ${text} 不是有效的 CIDR。`);
+    }
+    return { asn, name, family: subnet.family, prefix: subnet.prefix, address: subnet.address };
+  }));
+}
+
+function parseReferenceResolvers(source: string, origin: string): DohProviderConfig[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(source);
+  } catch (error) {
+    throw new ConfigurationError(`${origin} 不是有效的 JSON：${normalizeErrorMessage(error)}`);
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new ConfigurationError(`${origin} 必须是非空数组。`);
+  }
+
+  const seen = new Set<string>();
+  return parsed.map((entry, index) => {
+    if (!entry || typeof entry !== "object") {
+      throw new ConfigurationError(`${origin}[${index}] 必须是对象。`);
+    }
+    const { key, label, endpoint, json_endpoint: jsonEndpoint, rfc8484_endpoint: rfc8484Endpoint, formats } = entry as Record<string, unknown>;
+    if (typeof key !== "string" || !/^[a-z0-9_-]+$/i.test(key) || key === TARGET_PROVIDER_KEY) {
+      throw new ConfigurationError(`${origin}[${index}].key 必须由字母、数字、下划线或连字符组成，且不能为 "${TARGET_PROVIDER_KEY}"。`);
+    }
+    if (seen.has(key)) {
+      throw new ConfigurationError(`${origin}[${index}].key "${key}" 重复。`);
+    }
+    seen.add(key);
+    for (const [field, value] of [["endpoint", endpoint], ["json_endpoint", jsonEndpoint], ["rfc8484_endpoint", rfc8484Endpoint]] as const) {
+      if (value !== undefined && (typeof value !== "string" || !isHttpsUrl(value))) {
+        throw new ConfigurationError(`${origin}[${index}].${field} 必须是 https:// URL。`);
+      }
+    }
+    const endpoints: DohProviderEndpoints = {
+      json: (jsonEndpoint ?? endpoint) as string | undefined,
+      rfc8484: (rfc8484Endpoint ?? endpoint) as string | undefined,
+    };
+    if (!endpoints.json && !endpoints.rfc8484) {
+      throw new ConfigurationError(`${origin}[${index}] 至少需要配置 endpoint、json_endpoint 或 rfc8484_endpoint 之一。`);
+    }
+    const available = DOH_REQUEST_MODES.filter((mode) => Boolean(mode === "json" ? endpoints.json : endpoints.rfc8484));
+    let modes: DohRequestMode[] = available;
+    if (formats !== undefined) {
+      if (!Array.isArray(formats) || formats.length === 0 || formats.some((format) => !DOH_REQUEST_MODES.includes(format as DohRequestMode))) {
+        throw new ConfigurationError(`${origin}[${index}].formats 只能包含 ${DOH_REQUEST_MODES.join("、")}。`);
+      }
+      const missing = formats.filter((format) => !available.includes(format as DohRequestMode));
+      if (missing.length > 0) {
+        throw new ConfigurationError(`${origin}[${index}].formats 中的 ${missing.join("、")} 缺少对应的接口地址。`);
+      }
+      modes = DOH_REQUEST_MODES.filter((mode) => formats.includes(mode));
+    }
+    return {
+      key,
+      label: typeof label === "string" && label.trim() ? label.trim() : key,
+      endpoints,
+      formats: modes,
+    };
+  });
+}
+
+function isHttpsUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+async function fetchDohAnswer(provider: DohProviderConfig, name: string, recordType: string, timeout: number, onProgress?: ProgressReporter, options: DnsQueryOptions = {}): Promise<DohProviderResult> {
+  const modeResults: DohProviderModeResult[] = [];
+
+  for (const mode of DOH_REQUEST_MODES) {
+    const endpoint = resolveProviderEndpoint(provider, mode);
+    if (!endpoint) {
+      modeResults.push({
+        mode,
+        supported: false,
+        note: describeUnsupportedMode(provider, mode),
+        status: null,
+        ok: false,
+        ips: [],
+        latency_ms: null,
+        response_format: "unknown",
+        content_type: null,
+      });
+      continue;
+    }
+    const result = await performDohRequest(endpoint, name, recordType, timeout, mode, options);
+    modeResults.push({ ...result, supported: true });
+    onProgress?.({ type: "attempt", stage: "doh", provider: provider.key, record_type: recordType, mode, result: { ...result, supported: true } });
+  }
+
+  const attempted = modeResults.filter((item) => item.supported);
+  const successful = attempted.find((item) => item.ok);
+  let summary: DohProviderResult;
+
+  if (successful) {
+    summary = summarizeDohModeResult(successful, attempted);
+  } else {
+    summary = combineDohFailures(attempted);
+  }
+
+  summary.attempted_formats = attempted.map((item) => item.mode);
+  summary.supported_formats = attempted.filter((item) => item.ok).map((item) => item.mode);
+  summary.mode_results = modeResults;
+  return summary;
+}
+
+function resolveProviderEndpoint(provider: DohProviderConfig, mode: DohRequestMode): string | null {
+  if (!provider.formats.includes(mode)) return null;
+  return (mode === "json" ? provider.endpoints.json : provider.endpoints.rfc8484) ?? null;
+}
+
+function describeUnsupportedMode(provider: DohProviderConfig, mode: DohRequestMode): string {
+  const hasEndpoint = mode === "json" ? provider.endpoints.json : provider.endpoints.rfc8484;
+  if (!hasEndpoint) {
+    return mode === "json" ? `${provider.label} 未提供 JSON 接口，不支持此方式。` : `${provider.label} 未提供 RFC 8484 接口，不支持此方式。`;
+  }
+  return `${provider.label} 未启用此请求方式。`;
+}
+
+async function performDohRequest(endpoint: string, name: string, recordType: string, timeout: number, mode: DohRequestMode, options: DnsQueryOptions = {}): Promise<DohProviderModeResult> {
+  let request: DohHttpRequest;
+  try {
+    request = buildDohRequest(endpoint, name, recordType, mode, options);
+  } catch (error) {
+    return {
+      mode,
+      status: null,
+      ok: false,
+      ips: [],
+      latency_ms: null,
+      response_format: "unknown",
+      content_type: null,
+      error: normalizeErrorMessage(error),
+    };
+  }
+
+  const started = Date.now();
+  try {
+    const response = await fetch(request.url.toString(), {
+      ...request.init,
+      signal: createTimeoutSignal(timeout),
     });
     const latency_ms = Date.now() - started;
     const status = response.status;
     const contentType = response.headers.get("content-type");
 
+    if (isRedirectStatus(status)) {
+      return {
+        mode,
+        status,
+        ok: false,
+        ips: [],
+        answer_status: "error",
+        latency_ms,
+        response_format: "unknown",
+        content_type: contentType,
+        error: describeRedirect(response),
+      };
+    }
+
     if (isJsonContentType(contentType)) {
       try {
         const json = await response.json();
-        const ips = extractIpsFromAnswer(json);
-        const ok = response.ok && ips.length > 0;
+        const records = extractRecordsFromAnswer(json);
+        const header = extractJsonHeader(json);
+        const answerStatus = header ? classifyDnsAnswer(header, records, recordType) : undefined;
+        const ok = response.ok && extractAnswerData(records, recordType).length > 0;
         return {
           mode,
           status,
           ok,
-          ips,
+          ips: extractAddresses(records),
+          records,
+          cname_chain: buildCnameChain(records, name),
+          authority: extractRecordsFromAnswer(json, "Authority"),
+          header: header ?? undefined,
+          answer_status: answerStatus,
           latency_ms,
           response_format: "json",
           content_type: contentType,
           raw: json,
-          error: ok ? undefined : "未在响应中找到有效的 A 记录。",
+          dnssec: options.dnssec_ok ? extractJsonDnssecInfo(json, records) : undefined,
+          error: ok ? undefined : describeDnsAnswerError(response.ok ? header : null, recordType),
         };
       } catch (error) {
         return {
@@ -436,18 +4099,29 @@ async function performDohRequest(endpoint: string, name: string, recordType: str
     const raw = createDnsMessageRaw(buffer, contentType);
 
     try {
-      const ips = extractIpsFromDnsMessage(buffer);
-      const ok = response.ok && ips.length > 0;
+      const parsed = parseDnsMessage(buffer);
+      const records = parsed.answers.map(toDnsRecord);
+      const header = extractWireHeader(parsed);
+      const answerStatus = classifyDnsAnswer(header, records, recordType);
+      const ok = response.ok && extractAnswerData(records, recordType).length > 0;
       return {
         mode,
         status,
         ok,
-        ips,
+        ips: extractAddresses(records),
+        records,
+        cname_chain: buildCnameChain(records, name),
+        authority: parsed.authority.map(toDnsRecord),
+        header,
+        answer_status: answerStatus,
         latency_ms,
         response_format: "wire",
         content_type: contentType,
         raw,
-        error: ok ? undefined : "未在响应中找到有效的 A/AAAA 记录。",
+        dnssec: options.dnssec_ok ? extractWireDnssecInfo(parsed) : undefined,
+        client_subnet: options.client_subnet ? extractClientSubnet(parsed) : undefined,
+        padding: options.padding_block ? extractPaddingInfo(parsed) : undefined,
+        error: ok ? undefined : describeDnsAnswerError(response.ok ? header : null, recordType),
       };
     } catch (error) {
       return {
@@ -476,23 +4150,41 @@ async function performDohRequest(endpoint: string, name: string, recordType: str
   }
 }
 
-async function fetchHttpsRecord(endpoint: string, domain: string, timeout: number): Promise<EchProviderResult> {
+async function fetchHttpsRecord(provider: DohProviderConfig, domain: string, timeout: number, onProgress?: ProgressReporter): Promise<EchProviderResult> {
   const attempts: EchProviderResult[] = [];
-
-  const jsonAttempt = await performHttpsRequest(endpoint, domain, timeout, "json");
-  if (jsonAttempt) {
-    if (jsonAttempt.found) return jsonAttempt;
-    attempts.push(jsonAttempt);
-  }
-
-  const wireAttempt = await performHttpsRequest(endpoint, domain, timeout, "wire");
-  if (wireAttempt) {
-    if (wireAttempt.found) return wireAttempt;
-    attempts.push(wireAttempt);
+  const unsupported: EchProviderModeResult[] = DOH_REQUEST_MODES
+    .filter((mode) => !resolveProviderEndpoint(provider, mode))
+    .map((mode) => ({
+      mode,
+      supported: false,
+      note: describeUnsupportedMode(provider, mode),
+      found: false,
+      status: null,
+      latency_ms: null,
+      response_format: "unknown",
+      content_type: null,
+    }));
+
+  for (const mode of DOH_REQUEST_MODES) {
+    const endpoint = resolveProviderEndpoint(provider, mode);
+    if (!endpoint) continue;
+    const attempt = await performHttpsRequest(endpoint, domain, timeout, mode);
+    attempts.push(attempt);
+    onProgress?.({ type: "attempt", stage: "ech", provider: provider.key, mode, result: toEchModeResult(attempt) });
+    if (attempt.found) {
+      return {
+        ...attempt,
+        attempted_formats: attempts.flatMap((item) => item.attempted_formats),
+        mode_results: [...attempts.map(toEchModeResult), ...unsupported],
+      };
+    }
   }
 
   if (attempts.length > 0) {
-    return combineEchFailures(attempts);
+    return {
+      ...combineEchFailures(attempts),
+      mode_results: [...attempts.map(toEchModeResult), ...unsupported],
+    };
   }
 
   return {
@@ -508,11 +4200,9 @@ async function fetchHttpsRecord(endpoint: string, domain: string, timeout: numbe
 }
 
 async function performHttpsRequest(endpoint: string, domain: string, timeout: number, mode: DohRequestMode): Promise<EchProviderResult> {
-  let url: URL;
+  let request: DohHttpRequest;
   try {
-    url = mode === "json"
-      ? buildDohJsonUrl(endpoint, domain, String(HTTPS_RECORD_TYPE))
-      : buildDohWireUrl(endpoint, domain, String(HTTPS_RECORD_TYPE));
+    request = buildDohRequest(endpoint, domain, String(HTTPS_RECORD_TYPE), mode);
   } catch (error) {
     return {
       found: false,
@@ -526,35 +4216,45 @@ async function performHttpsRequest(endpoint: string, domain: string, timeout: nu
     };
   }
 
-  const headers: HeadersInit = mode === "json"
-    ? { Accept: "application/dns-json" }
-    : { Accept: "application/dns-message" };
-
   const started = Date.now();
   try {
-    const response = await fetch(url.toString(), {
-      headers,
+    const response = await fetch(request.url.toString(), {
+      ...request.init,
       signal: createTimeoutSignal(timeout),
     });
     const latency_ms = Date.now() - started;
     const status = response.status;
     const contentType = response.headers.get("content-type");
 
+    if (isRedirectStatus(status)) {
+      return {
+        found: false,
+        record: undefined,
+        status,
+        latency_ms,
+        attempted_formats: [mode],
+        response_format: "unknown",
+        content_type: contentType,
+        error: describeRedirect(response),
+      };
+    }
+
     if (isJsonContentType(contentType)) {
       try {
         const json = await response.json();
-        const record = extractHttpsRecord(json);
-        const found = Boolean(record && record.includes("ech="));
+        const { found, record, records, echConfigList, error } = summarizeHttpsRecords(extractHttpsRecords(json));
         return {
           found,
-          record: record ?? undefined,
+          record,
+          records,
+          ech_config_list: echConfigList,
           status,
           latency_ms,
           attempted_formats: [mode],
           response_format: "json",
           content_type: contentType,
           raw: json,
-          error: found ? undefined : "未发现包含 ECH 参数的 HTTPS 记录。",
+          error: found ? undefined : error ?? "未发现包含 ECH 参数的 HTTPS 记录。",
         };
       } catch (error) {
         return {
@@ -591,10 +4291,12 @@ async function performHttpsRequest(endpoint: string, domain: string, timeout: nu
     const raw = createDnsMessageRaw(buffer, contentType);
 
     try {
-      const { found, record, error } = findHttpsRecordInDnsMessage(buffer);
+      const { found, record, records, echConfigList, error } = findHttpsRecordInDnsMessage(buffer);
       return {
         found,
-        record: record ?? undefined,
+        record,
+        records,
+        ech_config_list: echConfigList,
         status,
         latency_ms,
         attempted_formats: [mode],
@@ -630,17 +4332,61 @@ async function performHttpsRequest(endpoint: string, domain: string, timeout: nu
   }
 }
 
-function buildDohJsonUrl(endpoint: string, name: string, type: string): URL {
+// 重定向目标未经过 validateTargetUrl 校验（可能是 http、内网地址或拒绝列表中的主机），因此一律不跟随，视为解析器错误。
+function isRedirectStatus(status: number): boolean {
+  return status >= 300 && status < 400;
+}
+
+function describeRedirect(response: Response): string {
+  const location = response.headers.get("Location");
+  return `服务器返回 HTTP ${response.status} 重定向${location ? `（Location：${location}）` : ""}，为避免绕过目标校验，不跟随重定向。`;
+}
+
+function buildDohRequest(endpoint: string, name: string, type: string, mode: DohRequestMode, options: DnsQueryOptions = {}): DohHttpRequest {
+  if (mode === "json") {
+    return {
+      url: buildDohJsonUrl(endpoint, name, type, options),
+      init: { headers: { Accept: "application/dns-json" }, redirect: "manual" },
+    };
+  }
+  if (mode === "wire") {
+    return {
+      url: buildDohWireUrl(endpoint, name, type, options),
+      init: { headers: { Accept: "application/dns-message" }, redirect: "manual" },
+    };
+  }
+  const query = buildDnsQueryMessage(normalizeDomain(name), recordTypeToNumber(type), options);
+  const url = new URL(endpoint);
+  url.searchParams.delete("name");
+  url.searchParams.delete("type");
+  url.searchParams.delete("dns");
+  return {
+    url,
+    init: {
+      method: "POST",
+      headers: {
+        Accept: "application/dns-message",
+        "Content-Type": "application/dns-message",
+      },
+      body: query,
+      redirect: "manual",
+    },
+  };
+}
+
+function buildDohJsonUrl(endpoint: string, name: string, type: string, options: DnsQueryOptions = {}): URL {
   const url = new URL(endpoint);
   url.searchParams.set("name", name);
   url.searchParams.set("type", type);
+  if (options.dnssec_ok) url.searchParams.set("do", "1");
+  if (options.checking_disabled) url.searchParams.set("cd", "1");
   return url;
 }
 
-function buildDohWireUrl(endpoint: string, name: string, type: string): URL {
+function buildDohWireUrl(endpoint: string, name: string, type: string, options: DnsQueryOptions = {}): URL {
   const recordType = recordTypeToNumber(type);
   const hostname = normalizeDomain(name);
-  const query = buildDnsQueryMessage(hostname, recordType);
+  const query = buildDnsQueryMessage(hostname, recordType, options);
   const url = new URL(endpoint);
   url.searchParams.delete("name");
   url.searchParams.delete("type");
@@ -673,138 +4419,829 @@ function combineDohFailures(results: DohProviderModeResult[]): DohProviderResult
     };
   }
 
-  const last = results[results.length - 1];
-  let status = last.status;
-  let latency = last.latency_ms;
-  let responseFormat = last.response_format;
-  let contentType = last.content_type ?? null;
-  let raw = last.raw;
+  const last = results[results.length - 1];
+  let status = last.status;
+  let latency = last.latency_ms;
+  let responseFormat = last.response_format;
+  let contentType = last.content_type ?? null;
+  let raw = last.raw;
+
+  if (status === null) {
+    for (const item of [...results].reverse()) {
+      if (item.status !== null) {
+        status = item.status;
+        break;
+      }
+    }
+  }
+
+  if (latency === null) {
+    for (const item of [...results].reverse()) {
+      if (item.latency_ms !== null) {
+        latency = item.latency_ms;
+        break;
+      }
+    }
+  }
+
+  if (!responseFormat || responseFormat === "unknown") {
+    responseFormat = results.map((item) => item.response_format).find((format) => format && format !== "unknown") ?? "unknown";
+  }
+
+  if (!contentType) {
+    contentType = results.map((item) => item.content_type).find((type) => Boolean(type)) ?? null;
+  }
+
+  const errors = results.map((item) => item.error).filter(Boolean) as string[];
+  const answered = [...results].reverse().find((item) => item.header);
+
+  return {
+    status,
+    ok: false,
+    ips: Array.from(new Set(results.flatMap((item) => item.ips))),
+    records: results.map((item) => item.records).find((records) => records && records.length > 0),
+    authority: answered?.authority,
+    header: answered?.header,
+    answer_status: answered?.answer_status,
+    latency_ms: latency,
+    response_format: responseFormat,
+    content_type: contentType,
+    raw,
+    error: errors.length > 0 ? errors.join(" | ") : "DoH 查询失败。",
+    attempted_formats: results.map((item) => item.mode),
+    mode_results: results,
+  };
+}
+
+function toEchModeResult(attempt: EchProviderResult): EchProviderModeResult {
+  const { attempted_formats, mode_results, ...rest } = attempt;
+  return { ...rest, mode: attempted_formats[0] ?? "json", supported: true };
+}
+
+function combineEchFailures(results: EchProviderResult[]): EchProviderResult {
+  const merged = { ...results[results.length - 1] };
+  if (merged.status === null) {
+    for (const item of [...results].reverse()) {
+      if (item.status !== null) {
+        merged.status = item.status;
+        break;
+      }
+    }
+  }
+  if (merged.latency_ms === null) {
+    for (const item of [...results].reverse()) {
+      if (item.latency_ms !== null) {
+        merged.latency_ms = item.latency_ms;
+        break;
+      }
+    }
+  }
+  merged.attempted_formats = Array.from(
+    new Set(results.flatMap((item) => item.attempted_formats ?? [])),
+  );
+  if (!merged.response_format || merged.response_format === "unknown") {
+    const responseFormat = results.map((item) => item.response_format).find((format) => format && format !== "unknown");
+    if (responseFormat) {
+      merged.response_format = responseFormat;
+    }
+  }
+  if (!merged.content_type) {
+    merged.content_type = results.map((item) => item.content_type).find((type) => Boolean(type)) ?? null;
+  }
+  const errors = results.map((item) => item.error).filter(Boolean) as string[];
+  merged.error = errors.length > 0 ? errors.join(" | ") : "HTTPS 记录查询失败。";
+  merged.found = results.some((item) => item.found);
+  merged.record = results.map((item) => item.record).find((record) => Boolean(record));
+  merged.records = results.map((item) => item.records).find((records) => records && records.length > 0);
+  merged.ech_config_list = results.map((item) => item.ech_config_list).find((list) => Boolean(list));
+  return merged;
+}
+
+function extractEchConfigList(result?: EchProviderResult): EchConfigList | null {
+  if (!result) return null;
+  if (result.ech_config_list) return result.ech_config_list;
+  const source = result.record ?? (typeof result.raw === "string" ? result.raw : null);
+  const base64 = source ? parseEchFromRecordString(source) : null;
+  return base64 ? parseEchConfigListBase64(base64) : null;
+}
+
+function parseEchFromRecordString(record: string): string | null {
+  if (!record) return null;
+  const match = record.match(/ech(?:config\(base64\))?=("[^"]+"|\S+)/i);
+  if (!match) return null;
+  let value = match[1];
+  if (!value) return null;
+  if (value.startsWith("\"") && value.endsWith("\"")) {
+    value = value.slice(1, -1);
+  }
+  return value || null;
+}
+
+function computeEchMatch(target: EchConfigList | null, reference: EchConfigList | null, notes: string[], label: string): boolean | null {
+  if (!target && !reference) {
+    notes.push(`${label} 和目标 DoH 均未返回 ECH 配置。`);
+    return null;
+  }
+  if (!target) {
+    notes.push(`目标 DoH 未返回 ECH 配置，但 ${label} 返回了配置。`);
+    return false;
+  }
+  if (!target.valid) {
+    notes.push(`目标 DoH 返回的 ECH 配置无法解析：${describeEchConfigFailure(target)}`);
+    return false;
+  }
+  if (!reference || !reference.valid) {
+    notes.push(`${label} 未返回有效的 ECH 配置，无法比对。`);
+    return null;
+  }
+  if (target.base64 === reference.base64) {
+    notes.push(`目标 DoH 与 ${label} 的 ECH 配置一致。`);
+    return true;
+  }
+  const differences = describeEchConfigDifferences(target, reference);
+  notes.push(`目标 DoH 与 ${label} 的 ECH 配置不一致${differences.length > 0 ? `（${differences.join("；")}）` : ""}。`);
+  return false;
+}
+
+function describeEchConfigDifferences(target: EchConfigList, reference: EchConfigList): string[] {
+  const differences: string[] = [];
+  if (target.configs.length !== reference.configs.length) {
+    differences.push(`配置数量 ${target.configs.length} ≠ ${reference.configs.length}`);
+  }
+  const count = Math.min(target.configs.length, reference.configs.length);
+  for (let i = 0; i < count; i += 1) {
+    const a = target.configs[i];
+    const b = reference.configs[i];
+    const prefix = count > 1 ? `第 ${i + 1} 项 ` : "";
+    if (a.version !== b.version) differences.push(`${prefix}version 不同`);
+    if (a.config_id !== b.config_id) differences.push(`${prefix}config_id ${a.config_id} ≠ ${b.config_id}`);
+    if (a.kem_id !== b.kem_id) differences.push(`${prefix}KEM 不同`);
+    if (a.public_key !== b.public_key) differences.push(`${prefix}公钥不同`);
+    if (a.public_name !== b.public_name) differences.push(`${prefix}public_name ${a.public_name} ≠ ${b.public_name}`);
+    if (a.maximum_name_length !== b.maximum_name_length) differences.push(`${prefix}maximum_name_length 不同`);
+    if (formatEchCipherSuites(a) !== formatEchCipherSuites(b)) differences.push(`${prefix}密码套件不同`);
+    if ((a.extensions?.length ?? 0) !== (b.extensions?.length ?? 0)) differences.push(`${prefix}扩展不同`);
+  }
+  return differences;
+}
+
+function formatEchCipherSuites(config: EchConfigDetails): string {
+  return (config.cipher_suites ?? []).map((suite) => `${suite.kdf_id}/${suite.aead_id}`).join(",");
+}
+
+function describeEchConfigFailure(list?: EchConfigList | null): string | undefined {
+  if (!list || list.valid) return undefined;
+  if (list.error) return `ECH 配置无效（${list.error.code}）：${list.error.message}`;
+  const issues = list.configs.map((config) => config.error).filter(Boolean) as EchConfigIssue[];
+  if (issues.length === 0) return "ECH 配置列表中没有可用的配置。";
+  return `ECH 配置无效：${issues.map((issue) => `${issue.code}：${issue.message}`).join(" | ")}`;
+}
+
+function parseEchConfigListBase64(value: string): EchConfigList {
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(value);
+  } catch {
+    return {
+      base64: value,
+      valid: false,
+      configs: [],
+      error: { code: "invalid_encoding", message: "ECH 配置不是有效的 base64 编码。" },
+    };
+  }
+  return parseEchConfigList(bytes);
+}
+
+function parseEchConfigList(bytes: Uint8Array): EchConfigList {
+  const base64 = bytesToBase64(bytes);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 2) {
+    return { base64, valid: false, configs: [], error: { code: "invalid_length", message: "ECHConfigList 长度字段被截断。" } };
+  }
+  const listLength = view.getUint16(0);
+  if (listLength + 2 !== bytes.length) {
+    return {
+      base64,
+      valid: false,
+      configs: [],
+      error: { code: "invalid_length", message: `ECHConfigList 声明长度 ${listLength} 与实际 ${bytes.length - 2} 字节不符。` },
+    };
+  }
+  if (listLength === 0) {
+    return { base64, valid: false, configs: [], error: { code: "invalid_length", message: "ECHConfigList 为空。" } };
+  }
+
+  const configs: EchConfigDetails[] = [];
+  let offset = 2;
+  while (offset < bytes.length) {
+    if (offset + 4 > bytes.length) {
+      return { base64, valid: false, configs, error: { code: "invalid_length", message: "ECHConfig 头部被截断。" } };
+    }
+    const version = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    const start = offset + 4;
+    const end = start + length;
+    if (end > bytes.length) {
+      return {
+        base64,
+        valid: false,
+        configs,
+        error: { code: "invalid_length", message: `ECHConfig 声明长度 ${length} 超出列表范围。` },
+      };
+    }
+    configs.push(parseEchConfigContents(version, bytes.subarray(start, end)));
+    offset = end;
+  }
+
+  return { base64, valid: configs.some((config) => !config.error), configs };
+}
+
+function parseEchConfigContents(version: number, contents: Uint8Array): EchConfigDetails {
+  const config: EchConfigDetails = { version, length: contents.length };
+  if (version !== ECH_CONFIG_VERSION) {
+    config.error = {
+      code: "unknown_version",
+      message: `未知的 ECHConfig 版本 0x${version.toString(16).padStart(4, "0")}。`,
+    };
+    return config;
+  }
+
+  const view = new DataView(contents.buffer, contents.byteOffset, contents.byteLength);
+  const truncated = (field: string): EchConfigDetails => ({
+    ...config,
+    error: { code: "invalid_length", message: `ECHConfig 在 ${field} 处被截断。` },
+  });
+
+  let cursor = 0;
+  if (cursor + 5 > contents.length) return truncated("key_config");
+  config.config_id = contents[cursor];
+  config.kem_id = view.getUint16(cursor + 1);
+  const publicKeyLength = view.getUint16(cursor + 3);
+  cursor += 5;
+  if (cursor + publicKeyLength > contents.length) return truncated("public_key");
+  config.public_key_length = publicKeyLength;
+  config.public_key = bytesToBase64(contents.subarray(cursor, cursor + publicKeyLength));
+  cursor += publicKeyLength;
+
+  if (cursor + 2 > contents.length) return truncated("cipher_suites");
+  const suitesLength = view.getUint16(cursor);
+  cursor += 2;
+  if (cursor + suitesLength > contents.length) return truncated("cipher_suites");
+  const suites: EchCipherSuite[] = [];
+  for (let i = 0; i + 4 <= suitesLength; i += 4) {
+    const kdfId = view.getUint16(cursor + i);
+    const aeadId = view.getUint16(cursor + i + 2);
+    suites.push({
+      kdf_id: kdfId,
+      kdf: HPKE_KDFS[kdfId] ?? `unknown(0x${kdfId.toString(16).padStart(4, "0")})`,
+      aead_id: aeadId,
+      aead: HPKE_AEADS[aeadId] ?? `unknown(0x${aeadId.toString(16).padStart(4, "0")})`,
+    });
+  }
+  config.cipher_suites = suites;
+  cursor += suitesLength;
+
+  if (cursor + 2 > contents.length) return truncated("public_name");
+  config.maximum_name_length = contents[cursor];
+  const publicNameLength = contents[cursor + 1];
+  cursor += 2;
+  if (cursor + publicNameLength > contents.length) return truncated("public_name");
+  config.public_name = readLabel(contents, cursor, publicNameLength);
+  cursor += publicNameLength;
+
+  if (cursor + 2 > contents.length) return truncated("extensions");
+  const extensionsLength = view.getUint16(cursor);
+  cursor += 2;
+  if (cursor + extensionsLength !== contents.length) {
+    return {
+      ...config,
+      error: { code: "invalid_length", message: `ECHConfig 扩展长度 ${extensionsLength} 与剩余 ${contents.length - cursor} 字节不符。` },
+    };
+  }
+  const extensions: EchConfigExtension[] = [];
+  let extensionCursor = cursor;
+  while (extensionCursor < contents.length) {
+    if (extensionCursor + 4 > contents.length) {
+      return { ...config, extensions, error: { code: "invalid_extensions", message: "ECHConfig 扩展头部被截断。" } };
+    }
+    const type = view.getUint16(extensionCursor);
+    const length = view.getUint16(extensionCursor + 2);
+    extensionCursor += 4 + length;
+    if (extensionCursor > contents.length) {
+      return { ...config, extensions, error: { code: "invalid_extensions", message: `ECHConfig 扩展 ${type} 超出范围。` } };
+    }
+    extensions.push({ type, length, mandatory: (type & 0x8000) !== 0 });
+  }
+  config.extensions = extensions;
+
+  const kem = HPKE_KEMS[config.kem_id];
+  if (!kem) {
+    config.error = {
+      code: "unsupported_kem",
+      message: `不支持的 HPKE KEM 0x${config.kem_id.toString(16).padStart(4, "0")}。`,
+    };
+    return config;
+  }
+  config.kem = kem.name;
+  if (publicKeyLength !== kem.publicKeyLength) {
+    config.error = {
+      code: "invalid_public_key",
+      message: `${kem.name} 公钥应为 ${kem.publicKeyLength} 字节，实际为 ${publicKeyLength} 字节。`,
+    };
+    return config;
+  }
+  if (suitesLength === 0 || suitesLength % 4 !== 0) {
+    config.error = { code: "invalid_cipher_suites", message: `密码套件列表长度 ${suitesLength} 非法。` };
+    return config;
+  }
+  if (!isValidEchPublicName(config.public_name)) {
+    config.error = { code: "invalid_public_name", message: `public_name "${config.public_name}" 不是有效的主机名。` };
+    return config;
+  }
+  return config;
+}
+
+function isValidEchPublicName(name: string): boolean {
+  if (!name || name.length > 255 || name.endsWith(".")) return false;
+  if (IP_V4_REGEX.test(name)) return false;
+  return name.split(".").every((label) => /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?$/.test(label));
+}
+
+function createDnssecContext(provider: DohProviderConfig, timeout: number, anchors: DnssecDsRecord[]): DnssecContext {
+  const mode: DohRequestMode = resolveProviderEndpoint(provider, "wire") ? "wire" : "post";
+  return {
+    source: provider.key,
+    endpoint: resolveProviderEndpoint(provider, mode) ?? "",
+    mode,
+    timeout,
+    anchors,
+    queries: 0,
+    zones: new Map(),
+    steps: [],
+  };
+}
+
+async function validateDnssecChain(context: DnssecContext, name: string, recordType: string): Promise<DnssecChainResult> {
+  const finish = (status: DnssecChainStatus, signers: string[], error?: string): DnssecChainResult => ({
+    status,
+    source: context.source,
+    signers,
+    zones: context.steps,
+    queries: context.queries,
+    error,
+  });
+
+  try {
+    const message = await queryDnssecMessage(context, name, recordType);
+    const rrsets = groupDnssecRrsets(message.answers);
+    if (rrsets.length === 0) {
+      return finish("indeterminate", [], `${name} 没有 ${recordType} 记录，否定应答需要 NSEC/NSEC3 证明，暂不支持验证。`);
+    }
+
+    const signers = new Set<string>();
+    let status: DnssecChainStatus = "secure";
+    const errors: string[] = [];
+    for (const records of rrsets) {
+      const signatures = findCoveringSignatures(message, records);
+      const label = `${records[0].name} ${recordTypeName(records[0].type)}`;
+      if (signatures.length === 0) {
+        if (status === "secure") status = "insecure";
+        errors.push(`${label} 未附带 RRSIG，域名可能未签名（未校验 NSEC/NSEC3 否定证明）。`);
+        continue;
+      }
+
+      const signer = signatures[0].signer;
+      signers.add(signer);
+      const zone = await resolveDnssecZoneKeys(context, signer);
+      if (zone.status !== "secure") {
+        if (zone.status === "bogus" || status === "secure") status = zone.status;
+        errors.push(zone.note ?? `${signer} 未能建立信任链。`);
+        continue;
+      }
+
+      const verified = await verifyDnssecRrset(message, records, signatures, zone.keys);
+      if (verified.unsupported) {
+        if (status === "secure") status = "insecure";
+        errors.push(`${label}：${verified.error}，按未签名处理。`);
+      } else if (!verified.valid) {
+        status = "bogus";
+        errors.push(`${label}：${verified.error}`);
+      }
+    }
+
+    return finish(status, Array.from(signers), errors.length > 0 ? errors.join(" | ") : undefined);
+  } catch (error) {
+    return finish("indeterminate", [], normalizeErrorMessage(error));
+  }
+}
+
+function resolveDnssecZoneKeys(context: DnssecContext, zone: string): Promise<DnssecZoneKeys> {
+  let pending = context.zones.get(zone);
+  if (!pending) {
+    pending = loadDnssecZoneKeys(context, zone);
+    context.zones.set(zone, pending);
+  }
+  return pending;
+}
+
+async function loadDnssecZoneKeys(context: DnssecContext, zone: string): Promise<DnssecZoneKeys> {
+  const step: DnssecZoneStep = { zone, status: "bogus", dnskey_tags: [], ds_tags: [], algorithms: [] };
+  context.steps.push(step);
+  const fail = (status: "insecure" | "bogus", note: string): DnssecZoneKeys => {
+    step.status = status;
+    step.note = note;
+    return { status, keys: [], note };
+  };
+
+  const keyMessage = await queryDnssecMessage(context, zone, "DNSKEY");
+  const keyRecords = keyMessage.answers.filter((record) => record.type === DNSKEY_RECORD_TYPE && record.name === zone);
+  const dnskeys = keyRecords.map((record) => parseDnskeyRecord(keyMessage.message, record));
+  step.dnskey_tags = dnskeys.map((key) => key.key_tag);
+  step.algorithms = Array.from(new Set(dnskeys.map((key) => dnssecAlgorithmName(key.algorithm))));
+
+  let trusted: DnssecDsRecord[];
+  if (zone === ".") {
+    trusted = context.anchors;
+  } else {
+    const dsMessage = await queryDnssecMessage(context, zone, "DS");
+    const dsRecords = dsMessage.answers.filter((record) => record.type === DS_RECORD_TYPE && record.name === zone);
+    if (dsRecords.length === 0) {
+      return fail("insecure", `父区未发布 ${zone} 的 DS 记录，委派未签名。`);
+    }
+    const dsSignatures = findCoveringSignatures(dsMessage, dsRecords);
+    if (dsSignatures.length === 0) {
+      return fail("bogus", `${zone} 的 DS 记录缺少 RRSIG。`);
+    }
+    const parent = dsSignatures[0].signer;
+    if (!isProperSubdomain(zone, parent)) {
+      return fail("bogus", `${zone} 的 DS 签名者 ${parent} 不是其上级区。`);
+    }
+    const parentKeys = await resolveDnssecZoneKeys(context, parent);
+    if (parentKeys.status !== "secure") {
+      return fail(parentKeys.status, `上级区 ${parent} 未能建立信任链。`);
+    }
+    const verified = await verifyDnssecRrset(dsMessage, dsRecords, dsSignatures, parentKeys.keys);
+    if (verified.unsupported) {
+      return fail("insecure", `${zone} 的 DS 记录：${verified.error}，按未签名处理。`);
+    }
+    if (!verified.valid) {
+      return fail("bogus", `${zone} 的 DS 记录签名无效：${verified.error}`);
+    }
+    trusted = dsRecords.map((record) => parseDsRecord(dsMessage.message, record));
+  }
+  step.ds_tags = trusted.map((ds) => ds.key_tag);
+
+  // RFC 4035 §5.2：DS 只使用不支持的算法或摘要类型时，没有可用的认证路径，按未签名处理。
+  if (!trusted.some((ds) => SUPPORTED_DNSSEC_ALGORITHMS.has(ds.algorithm) && DS_DIGEST_ALGORITHMS[ds.digest_type])) {
+    const algorithms = Array.from(new Set(trusted.map((ds) => dnssecAlgorithmName(ds.algorithm))));
+    return fail("insecure", `${zone} 的 DS 记录只使用了不支持校验的算法或摘要类型（${algorithms.join("、")}），按未签名处理。`);
+  }
+  if (dnskeys.length === 0) {
+    return fail("bogus", `${zone} 未返回 DNSKEY 记录。`);
+  }
+  const entryKeys = await matchDsToDnskeys(zone, dnskeys, trusted);
+  if (entryKeys.length === 0) {
+    return fail("bogus", `${zone} 没有与 DS 摘要匹配的 DNSKEY。`);
+  }
+  const verified = await verifyDnssecRrset(keyMessage, keyRecords, findCoveringSignatures(keyMessage, keyRecords), entryKeys);
+  if (verified.unsupported) {
+    return fail("insecure", `${zone} 的 DNSKEY 记录：${verified.error}，按未签名处理。`);
+  }
+  if (!verified.valid) {
+    return fail("bogus", `${zone} 的 DNSKEY 记录签名无效：${verified.error}`);
+  }
+
+  step.status = "secure";
+  return { status: "secure", keys: dnskeys.filter((key) => (key.flags & 0x0100) !== 0) };
+}
+
+async function queryDnssecMessage(context: DnssecContext, name: string, recordType: string): Promise<ParsedDnsMessage> {
+  const request = buildDohRequest(context.endpoint, name, recordType, context.mode, { dnssec_ok: true, checking_disabled: true });
+  context.queries += 1;
+  const response = await fetch(request.url.toString(), {
+    ...request.init,
+    signal: createTimeoutSignal(context.timeout),
+  });
+  if (isRedirectStatus(response.status)) {
+    throw new Error(`查询 ${name} ${recordType} 失败：${describeRedirect(response)}`);
+  }
+  if (!response.ok) {
+    throw new Error(`查询 ${name} ${recordType} 失败：HTTP ${response.status}`);
+  }
+  return parseDnsMessage(await response.arrayBuffer());
+}
+
+function groupDnssecRrsets(records: ParsedDnsRecord[]): ParsedDnsRecord[][] {
+  const groups = new Map<string, ParsedDnsRecord[]>();
+  for (const record of records) {
+    if (record.type === RRSIG_RECORD_TYPE || record.type === OPT_RECORD_TYPE) continue;
+    const key = `${record.name}|${record.type}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(key, [record]);
+    }
+  }
+  return Array.from(groups.values());
+}
+
+function findCoveringSignatures(message: ParsedDnsMessage, records: ParsedDnsRecord[]): DnssecRrsigRecord[] {
+  const { name, type } = records[0];
+  // RFC 4035 §5.3.1：签名者必须是 RRset 所有者本身或其上级区，否则任何能建立信任链的区都能为其他域名伪造签名。
+  return [...message.answers, ...message.authority]
+    .filter((record) => record.type === RRSIG_RECORD_TYPE && record.name === name)
+    .map((record) => parseRrsigRecord(message.message, record))
+    .filter((signature) => signature.type_covered === type && (signature.signer === name || isProperSubdomain(name, signature.signer)));
+}
+
+/**
+ * `unsupported` 表示所有 RRSIG 都使用 Worker 无法校验的算法；RFC 4035 §5.2 与 RFC 6840 §5.2
+ * 要求按未签名（insecure）处理，而不是视为签名无效。
+ */
+async function verifyDnssecRrset(
+  message: ParsedDnsMessage,
+  records: ParsedDnsRecord[],
+  signatures: DnssecRrsigRecord[],
+  keys: DnssecDnskeyRecord[]
+): Promise<{ valid: boolean; unsupported?: boolean; error?: string }> {
+  if (signatures.length > 0 && signatures.every((signature) => !SUPPORTED_DNSSEC_ALGORITHMS.has(signature.algorithm))) {
+    const algorithms = Array.from(new Set(signatures.map((signature) => dnssecAlgorithmName(signature.algorithm))));
+    return { valid: false, unsupported: true, error: `RRSIG 使用了不支持校验的算法 ${algorithms.join("、")}` };
+  }
+  const now = Math.floor(Date.now() / 1000) >>> 0;
+  const errors: string[] = [];
+  for (const signature of signatures.filter((item) => SUPPORTED_DNSSEC_ALGORITHMS.has(item.algorithm))) {
+    if (!serialLessOrEqual(signature.inception, now) || !serialLessOrEqual(now, signature.expiration)) {
+      errors.push(`RRSIG（key tag ${signature.key_tag}）不在有效期内`);
+      continue;
+    }
+    const candidates = keys.filter((key) => key.key_tag === signature.key_tag && key.algorithm === signature.algorithm);
+    if (candidates.length === 0) {
+      errors.push(`没有与 RRSIG 匹配的 DNSKEY（key tag ${signature.key_tag}）`);
+      continue;
+    }
+    const data = buildDnssecSignedData(message.message, records, signature);
+    for (const key of candidates) {
+      if (await verifyDnssecSignature(key, signature, data)) {
+        return { valid: true };
+      }
+    }
+    errors.push(`RRSIG（key tag ${signature.key_tag}，${dnssecAlgorithmName(signature.algorithm)}）签名校验失败`);
+  }
+  return { valid: false, error: errors.length > 0 ? errors.join("；") : "没有可用的 RRSIG" };
+}
+
+function buildDnssecSignedData(message: Uint8Array, records: ParsedDnsRecord[], signature: DnssecRrsigRecord): Uint8Array {
+  const ownerLabels = records[0].name === "." ? [] : records[0].name.split(".");
+  // 通配符展开的应答以 RRSIG labels 字段还原签名时的 *.<closest encloser> 名称。
+  const owner = ownerLabels.length > signature.labels
+    ? ["*", ...ownerLabels.slice(ownerLabels.length - signature.labels)].join(".")
+    : records[0].name;
+  const ownerWire = encodeDnsName(owner);
+
+  const rdatas = records.map((record) => canonicalRdata(message, record)).sort(compareBytes);
+  const entries = rdatas
+    .filter((rdata, index) => index === 0 || compareBytes(rdata, rdatas[index - 1]) !== 0)
+    .map((rdata) => {
+      const header = new Uint8Array(10);
+      const view = new DataView(header.buffer);
+      view.setUint16(0, records[0].type);
+      view.setUint16(2, records[0].class);
+      view.setUint32(4, signature.original_ttl);
+      view.setUint16(8, rdata.length);
+      return concatBytes([ownerWire, header, rdata]);
+    });
+  return concatBytes([signature.signed_prefix, ...entries]);
+}
+
+function canonicalRdata(message: Uint8Array, record: ParsedDnsRecord): Uint8Array {
+  const { offset, length } = record;
+  const raw = message.subarray(offset, offset + length);
+  const withName = (prefixLength: number, suffixNames = 1): Uint8Array => {
+    const parts: Uint8Array[] = [raw.subarray(0, prefixLength)];
+    let cursor = offset + prefixLength;
+    for (let i = 0; i < suffixNames; i += 1) {
+      const name = readDnsName(message, cursor);
+      parts.push(encodeDnsName(normalizeDnsName(name.name)));
+      cursor += name.length;
+    }
+    parts.push(message.subarray(cursor, offset + length));
+    return concatBytes(parts);
+  };
+
+  // RFC 4034 §6.2：含域名的 RDATA 需展开压缩指针并转为小写。
+  switch (record.type) {
+    case 2:
+    case 5:
+    case 12:
+    case 39:
+      return withName(0);
+    case 6:
+      return withName(0, 2);
+    case 15:
+      return withName(2);
+    case 33:
+      return withName(6);
+    default:
+      return raw.slice();
+  }
+}
 
-  if (status === null) {
-    for (const item of [...results].reverse()) {
-      if (item.status !== null) {
-        status = item.status;
+async function matchDsToDnskeys(zone: string, keys: DnssecDnskeyRecord[], dsRecords: DnssecDsRecord[]): Promise<DnssecDnskeyRecord[]> {
+  const owner = encodeDnsName(zone);
+  const matched: DnssecDnskeyRecord[] = [];
+  for (const key of keys) {
+    for (const ds of dsRecords) {
+      const digest = DS_DIGEST_ALGORITHMS[ds.digest_type];
+      if (!digest || ds.key_tag !== key.key_tag || ds.algorithm !== key.algorithm) continue;
+      const computed = new Uint8Array(await crypto.subtle.digest(digest, concatBytes([owner, key.rdata])));
+      if (compareBytes(computed, ds.digest) === 0) {
+        matched.push(key);
         break;
       }
     }
   }
+  return matched;
+}
 
-  if (latency === null) {
-    for (const item of [...results].reverse()) {
-      if (item.latency_ms !== null) {
-        latency = item.latency_ms;
-        break;
+async function verifyDnssecSignature(key: DnssecDnskeyRecord, signature: DnssecRrsigRecord, data: Uint8Array): Promise<boolean> {
+  try {
+    switch (key.algorithm) {
+      case 5:
+      case 7:
+      case 8:
+      case 10: {
+        const hash = key.algorithm === 8 ? "SHA-256" : key.algorithm === 10 ? "SHA-512" : "SHA-1";
+        const algorithm = { name: "RSASSA-PKCS1-v1_5", hash };
+        const cryptoKey = await crypto.subtle.importKey("jwk", parseRsaPublicKey(key.public_key), algorithm, false, ["verify"]);
+        return await crypto.subtle.verify(algorithm, cryptoKey, signature.signature, data);
       }
+      case 13:
+      case 14: {
+        const namedCurve = key.algorithm === 13 ? "P-256" : "P-384";
+        const hash = key.algorithm === 13 ? "SHA-256" : "SHA-384";
+        const raw = concatBytes([new Uint8Array([0x04]), key.public_key]);
+        const cryptoKey = await crypto.subtle.importKey("raw", raw, { name: "ECDSA", namedCurve }, false, ["verify"]);
+        return await crypto.subtle.verify({ name: "ECDSA", hash }, cryptoKey, signature.signature, data);
+      }
+      case 15: {
+        const cryptoKey = await crypto.subtle.importKey("raw", key.public_key, { name: "Ed25519" }, false, ["verify"]);
+        return await crypto.subtle.verify({ name: "Ed25519" }, cryptoKey, signature.signature, data);
+      }
+      default:
+        return false;
     }
+  } catch {
+    return false;
   }
+}
 
-  if (!responseFormat || responseFormat === "unknown") {
-    responseFormat = results.map((item) => item.response_format).find((format) => format && format !== "unknown") ?? "unknown";
+function parseRsaPublicKey(publicKey: Uint8Array): JsonWebKey {
+  // RFC 3110：指数长度为 1 字节，若为 0 则后随 2 字节长度。
+  let cursor = 1;
+  let exponentLength = publicKey[0];
+  if (exponentLength === 0) {
+    exponentLength = (publicKey[1] << 8) | publicKey[2];
+    cursor = 3;
   }
+  const exponent = publicKey.subarray(cursor, cursor + exponentLength);
+  const modulus = publicKey.subarray(cursor + exponentLength);
+  if (exponent.length === 0 || modulus.length === 0) {
+    throw new Error("RSA 公钥格式无效");
+  }
+  return { kty: "RSA", e: bytesToBase64Url(exponent), n: bytesToBase64Url(modulus), ext: true };
+}
 
-  if (!contentType) {
-    contentType = results.map((item) => item.content_type).find((type) => Boolean(type)) ?? null;
+function parseDnskeyRecord(message: Uint8Array, record: ParsedDnsRecord): DnssecDnskeyRecord {
+  if (record.length < 4) {
+    throw new Error("DNSKEY 记录长度非法");
   }
+  const rdata = message.slice(record.offset, record.offset + record.length);
+  return {
+    flags: (rdata[0] << 8) | rdata[1],
+    protocol: rdata[2],
+    algorithm: rdata[3],
+    public_key: rdata.subarray(4),
+    rdata,
+    key_tag: computeKeyTag(rdata),
+  };
+}
 
-  const errors = results.map((item) => item.error).filter(Boolean) as string[];
+function parseDsRecord(message: Uint8Array, record: ParsedDnsRecord): DnssecDsRecord {
+  if (record.length < 5) {
+    throw new Error("DS 记录长度非法");
+  }
+  const rdata = message.subarray(record.offset, record.offset + record.length);
+  return {
+    key_tag: (rdata[0] << 8) | rdata[1],
+    algorithm: rdata[2],
+    digest_type: rdata[3],
+    digest: rdata.slice(4),
+  };
+}
 
+function parseRrsigRecord(message: Uint8Array, record: ParsedDnsRecord): DnssecRrsigRecord {
+  if (record.length < 19) {
+    throw new Error("RRSIG 记录长度非法");
+  }
+  const { offset, length } = record;
+  const view = new DataView(message.buffer, message.byteOffset + offset, length);
+  const signer = readDnsName(message, offset + 18);
+  const signerName = normalizeDnsName(signer.name);
   return {
-    status,
-    ok: false,
-    ips: Array.from(new Set(results.flatMap((item) => item.ips))),
-    latency_ms: latency,
-    response_format: responseFormat,
-    content_type: contentType,
-    raw,
-    error: errors.length > 0 ? errors.join(" | ") : "DoH 查询失败。",
-    attempted_formats: results.map((item) => item.mode),
-    mode_results: results,
+    type_covered: view.getUint16(0),
+    algorithm: view.getUint8(2),
+    labels: view.getUint8(3),
+    original_ttl: view.getUint32(4),
+    expiration: view.getUint32(8),
+    inception: view.getUint32(12),
+    key_tag: view.getUint16(16),
+    signer: signerName,
+    signature: message.slice(offset + 18 + signer.length, offset + length),
+    signed_prefix: concatBytes([message.subarray(offset, offset + 18), encodeDnsName(signerName)]),
   };
 }
 
-function combineEchFailures(results: EchProviderResult[]): EchProviderResult {
-  const merged = { ...results[results.length - 1] };
-  if (merged.status === null) {
-    for (const item of [...results].reverse()) {
-      if (item.status !== null) {
-        merged.status = item.status;
-        break;
-      }
-    }
+function computeKeyTag(rdata: Uint8Array): number {
+  // RFC 4034 附录 B。
+  let accumulator = 0;
+  for (let i = 0; i < rdata.length; i += 1) {
+    accumulator += i & 1 ? rdata[i] : rdata[i] << 8;
   }
-  if (merged.latency_ms === null) {
-    for (const item of [...results].reverse()) {
-      if (item.latency_ms !== null) {
-        merged.latency_ms = item.latency_ms;
-        break;
+  accumulator += (accumulator >> 16) & 0xffff;
+  return accumulator & 0xffff;
+}
+
+function parseTrustAnchors(source?: string): DnssecDsRecord[] {
+  const anchors = (source?.trim() ? source : DEFAULT_TRUST_ANCHORS.join("\n"))
+    .split(/[\n;]+/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const fields = line.replace(/^\.\s+(?:IN\s+)?DS\s+/i, "").split(/\s+/);
+      if (fields.length < 4 || !/^[0-9a-fA-F]+$/.test(fields.slice(3).join(""))) {
+        throw new ConfigurationError(`DNSSEC_TRUST_ANCHORS 中的条目格式无效：${line}`);
       }
-    }
-  }
-  merged.attempted_formats = Array.from(
-    new Set(results.flatMap((item) => item.attempted_formats ?? [])),
-  );
-  if (!merged.response_format || merged.response_format === "unknown") {
-    const responseFormat = results.map((item) => item.response_format).find((format) => format && format !== "unknown");
-    if (responseFormat) {
-      merged.response_format = responseFormat;
-    }
-  }
-  if (!merged.content_type) {
-    merged.content_type = results.map((item) => item.content_type).find((type) => Boolean(type)) ?? null;
+      return {
+        key_tag: Number(fields[0]),
+        algorithm: Number(fields[1]),
+        digest_type: Number(fields[2]),
+        digest: hexToBytes(fields.slice(3).join("")),
+      };
+    });
+  if (anchors.length === 0) {
+    throw new ConfigurationError("DNSSEC_TRUST_ANCHORS 至少需要一条根区 DS 记录。");
   }
-  const errors = results.map((item) => item.error).filter(Boolean) as string[];
-  merged.error = errors.length > 0 ? errors.join(" | ") : "HTTPS 记录查询失败。";
-  merged.found = results.some((item) => item.found);
-  merged.record = results.map((item) => item.record).find((record) => Boolean(record));
-  return merged;
+  return anchors;
 }
 
-function extractEchConfigString(result?: EchProviderResult): string | null {
-  if (!result) return null;
-  if (!result.found || !result.record) {
-    if (typeof result.raw === "string") {
-      const parsed = parseEchFromRecordString(result.raw);
-      if (parsed) return parsed;
+function dnssecAlgorithmName(algorithm: number): string {
+  return DNSSEC_ALGORITHMS[algorithm] ?? `ALG${algorithm}`;
+}
+
+function isProperSubdomain(name: string, ancestor: string): boolean {
+  if (name === ancestor) return false;
+  return ancestor === "." || name.endsWith(`.${ancestor}`);
+}
+
+function serialLessOrEqual(a: number, b: number): boolean {
+  return ((b - a) >>> 0) < 0x80000000;
+}
+
+function encodeDnsName(name: string): Uint8Array {
+  const labels = name === "." ? [] : name.toLowerCase().split(".").filter(Boolean);
+  const bytes = new Uint8Array(labels.reduce((total, label) => total + label.length + 1, 1));
+  let offset = 0;
+  for (const label of labels) {
+    bytes[offset] = label.length;
+    for (let i = 0; i < label.length; i += 1) {
+      bytes[offset + 1 + i] = label.charCodeAt(i);
     }
-    return null;
+    offset += label.length + 1;
   }
-  return parseEchFromRecordString(result.record);
+  return bytes;
 }
 
-function parseEchFromRecordString(record: string): string | null {
-  if (!record) return null;
-  const match = record.match(/ech(?:config\(base64\))?=("[^"]+"|[^\\s]+)/i);
-  if (!match) return null;
-  let value = match[1];
-  if (!value) return null;
-  if (value.startsWith("\"") && value.endsWith("\"")) {
-    value = value.slice(1, -1);
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
   }
-  return value || null;
+  return result;
 }
 
-function computeEchMatch(target: string | null, reference: string | null, notes: string[], label: string): boolean | null {
-  if (!target && !reference) {
-    notes.push(`${label} 和目标 DoH 均未返回 ECH 配置。`);
-    return null;
-  }
-  if (!target) {
-    notes.push(`目标 DoH 未返回 ECH 配置，但 ${label} 返回了配置。`);
-    return false;
-  }
-  if (!reference) {
-    notes.push(`${label} 未返回 ECH 配置，无法比对。`);
-    return null;
-  }
-  if (target === reference) {
-    notes.push(`目标 DoH 与 ${label} 的 ECH 配置一致。`);
-    return true;
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i += 1) {
+    if (a[i] !== b[i]) return a[i] - b[i];
   }
-  notes.push(`目标 DoH 与 ${label} 的 ECH 配置不一致。`);
-  return false;
+  return a.length - b.length;
 }
 
-function buildDnsQueryMessage(domain: string, recordType: number): Uint8Array {
+function buildDnsQueryMessage(domain: string, recordType: number, options: DnsQueryOptions = {}): Uint8Array {
   const labels = domain ? domain.split(".") : [];
   let length = 12 + 1 + 4; // header + terminator + qtype/qclass
   for (const label of labels) {
@@ -814,17 +5251,23 @@ function buildDnsQueryMessage(domain: string, recordType: number): Uint8Array {
     }
     length += 1 + label.length;
   }
+  const edns = buildEdnsOptions(options, length);
+  const optLength = edns ? 11 + edns.length : 0; // EDNS0 OPT: root name + type/class/ttl/rdlength + options
+  length += optLength;
 
   const buffer = new Uint8Array(length);
   const view = new DataView(buffer.buffer);
 
   const id = generateRequestId();
   view.setUint16(0, id);
-  view.setUint16(2, 0x0100); // recursion desired
+  let flags = 0x0100; // recursion desired
+  if (options.dnssec_ok) flags |= 0x0020; // AD：请求返回验证结论（RFC 6840 §5.7）
+  if (options.checking_disabled) flags |= 0x0010; // CD
+  view.setUint16(2, flags);
   view.setUint16(4, 1); // QDCOUNT
   view.setUint16(6, 0); // ANCOUNT
   view.setUint16(8, 0); // NSCOUNT
-  view.setUint16(10, 0); // ARCOUNT
+  view.setUint16(10, optLength > 0 ? 1 : 0); // ARCOUNT
 
   let offset = 12;
   for (const label of labels) {
@@ -842,9 +5285,206 @@ function buildDnsQueryMessage(domain: string, recordType: number): Uint8Array {
   view.setUint16(offset, recordType);
   offset += 2;
   view.setUint16(offset, 1); // IN class
+  offset += 2;
+
+  if (edns) {
+    buffer[offset] = 0; // root owner name
+    view.setUint16(offset + 1, OPT_RECORD_TYPE);
+    view.setUint16(offset + 3, 1232); // UDP payload size
+    view.setUint32(offset + 5, options.dnssec_ok ? 0x00008000 : 0); // extended RCODE/version 0, DO bit
+    view.setUint16(offset + 9, edns.length); // RDLENGTH
+    buffer.set(edns, offset + 11);
+  }
   return buffer;
 }
 
+function buildEdnsOptions(options: DnsQueryOptions, messageLength: number): Uint8Array | null {
+  const parts: Uint8Array[] = [];
+  if (options.client_subnet) {
+    const subnet = parseClientSubnet(options.client_subnet);
+    if (!subnet) {
+      throw new Error(`客户端子网格式无效：${options.client_subnet}`);
+    }
+    const option = new Uint8Array(8 + subnet.address.length);
+    const view = new DataView(option.buffer);
+    view.setUint16(0, EDNS_CLIENT_SUBNET_OPTION);
+    view.setUint16(2, 4 + subnet.address.length);
+    view.setUint16(4, subnet.family);
+    option[6] = subnet.prefix; // SOURCE PREFIX-LENGTH
+    option[7] = 0; // SCOPE PREFIX-LENGTH
+    option.set(subnet.address, 8);
+    parts.push(option);
+  }
+
+  if (options.padding_block) {
+    // RFC 8467 §4.1：填充选项放在最后，使整个查询报文长度为块大小的整数倍。
+    const unpadded = messageLength + 11 + parts.reduce((total, part) => total + part.length, 0) + 4;
+    const paddingLength = (options.padding_block - (unpadded % options.padding_block)) % options.padding_block;
+    const option = new Uint8Array(4 + paddingLength);
+    const view = new DataView(option.buffer);
+    view.setUint16(0, EDNS_PADDING_OPTION);
+    view.setUint16(2, paddingLength);
+    parts.push(option);
+  }
+
+  if (parts.length === 0 && !options.dnssec_ok) {
+    return null;
+  }
+  return concatBytes(parts);
+}
+
+function parseClientSubnet(value: string): { family: 1 | 2; prefix: number; address: Uint8Array; text: string } | null {
+  const [addressText, prefixText, ...rest] = value.trim().split("/");
+  if (rest.length > 0) return null;
+  const ipv4 = parseIpv4(addressText);
+  const ipv6 = ipv4 ? null : parseIpv6(addressText);
+  if (!ipv4 && !ipv6) return null;
+
+  const maxPrefix = ipv4 ? 32 : 128;
+  const prefix = prefixText === undefined ? (ipv4 ? 24 : 56) : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) return null;
+
+  const full = ipv4 ? new Uint8Array(ipv4) : new Uint8Array(ipv6!.flatMap((segment) => [segment >> 8, segment & 0xff]));
+  // RFC 7871 §6：ADDRESS 只保留 SOURCE PREFIX-LENGTH 覆盖的字节，多余位清零。
+  const address = full.slice(0, Math.ceil(prefix / 8));
+  if (prefix % 8 !== 0) {
+    address[address.length - 1] &= 0xff << (8 - (prefix % 8));
+  }
+  full.fill(0);
+  full.set(address);
+  const text = `${ipv4 ? formatIpv4(full) : formatIpv6(full)}/${prefix}`;
+  return { family: ipv4 ? 1 : 2, prefix, address, text };
+}
+
+function readEdnsOptions(message: ParsedDnsMessage): Array<{ code: number; data: Uint8Array }> {
+  const opt = message.additional.find((record) => record.type === OPT_RECORD_TYPE);
+  if (!opt) return [];
+  const options: Array<{ code: number; data: Uint8Array }> = [];
+  let cursor = opt.offset;
+  const end = opt.offset + opt.length;
+  while (cursor + 4 <= end) {
+    const code = (message.message[cursor] << 8) | message.message[cursor + 1];
+    const length = (message.message[cursor + 2] << 8) | message.message[cursor + 3];
+    cursor += 4;
+    if (cursor + length > end) break;
+    options.push({ code, data: message.message.subarray(cursor, cursor + length) });
+    cursor += length;
+  }
+  return options;
+}
+
+function extractPaddingInfo(message: ParsedDnsMessage): EdnsPaddingInfo {
+  const option = readEdnsOptions(message).find((item) => item.code === EDNS_PADDING_OPTION);
+  return {
+    message_length: message.message.length,
+    padded: Boolean(option),
+    padding_length: option ? option.data.length : null,
+  };
+}
+
+function extractClientSubnet(message: ParsedDnsMessage): EcsOptionInfo | null {
+  const option = readEdnsOptions(message).find((item) => item.code === EDNS_CLIENT_SUBNET_OPTION);
+  if (!option || option.data.length < 4) return null;
+  const family = (option.data[0] << 8) | option.data[1];
+  const size = family === 1 ? 4 : family === 2 ? 16 : 0;
+  const full = new Uint8Array(size);
+  full.set(option.data.subarray(4, 4 + size));
+  return {
+    family,
+    source_prefix: option.data[2],
+    scope_prefix: option.data[3],
+    address: family === 1 ? formatIpv4(full) : family === 2 ? formatIpv6(full) : formatGenericRdata(option.data.subarray(4)),
+  };
+}
+
+function extractJsonDnssecInfo(json: unknown, records: DnsRecord[]): DnssecResponseInfo {
+  const body = (json && typeof json === "object" ? json : {}) as Record<string, unknown>;
+  return {
+    ad: typeof body.AD === "boolean" ? body.AD : null,
+    cd: typeof body.CD === "boolean" ? body.CD : null,
+    rrsig_count: records.filter((record) => record.type === "RRSIG").length,
+  };
+}
+
+function extractWireDnssecInfo(message: ParsedDnsMessage): DnssecResponseInfo {
+  return {
+    ad: (message.flags & 0x0020) !== 0,
+    cd: (message.flags & 0x0010) !== 0,
+    rrsig_count: message.answers.filter((record) => record.type === RRSIG_RECORD_TYPE).length,
+  };
+}
+
+function extractJsonHeader(json: unknown): DnsResponseHeader | null {
+  const body = (json && typeof json === "object" ? json : {}) as Record<string, unknown>;
+  if (typeof body.Status !== "number") return null;
+  const flag = (value: unknown) => (typeof value === "boolean" ? value : null);
+  return {
+    rcode: body.Status,
+    rcode_name: rcodeName(body.Status),
+    flags: {
+      qr: true,
+      aa: null,
+      tc: flag(body.TC),
+      rd: flag(body.RD),
+      ra: flag(body.RA),
+      ad: flag(body.AD),
+      cd: flag(body.CD),
+    },
+  };
+}
+
+function extractWireHeader(message: ParsedDnsMessage): DnsResponseHeader {
+  // OPT 记录的 TTL 字段携带 12 位扩展 RCODE 的高 8 位（RFC 6891 §6.1.3）。
+  const opt = message.additional.find((record) => record.type === OPT_RECORD_TYPE);
+  const rcode = opt ? ((opt.ttl >>> 24) << 4) | message.rcode : message.rcode;
+  const flags = message.flags;
+  return {
+    rcode,
+    rcode_name: rcodeName(rcode),
+    flags: {
+      qr: (flags & 0x8000) !== 0,
+      aa: (flags & 0x0400) !== 0,
+      tc: (flags & 0x0200) !== 0,
+      rd: (flags & 0x0100) !== 0,
+      ra: (flags & 0x0080) !== 0,
+      ad: (flags & 0x0020) !== 0,
+      cd: (flags & 0x0010) !== 0,
+    },
+  };
+}
+
+function rcodeName(rcode: number): string {
+  return DNS_RCODE_NAMES[rcode] ?? `RCODE${rcode}`;
+}
+
+function classifyDnsAnswer(header: DnsResponseHeader, records: DnsRecord[], recordType: string): DnsAnswerStatus {
+  if (header.rcode === 3) return "nxdomain";
+  if (header.rcode !== 0) return "error";
+  return extractAnswerData(records, recordType).length > 0 ? "answer" : "nodata";
+}
+
+function describeDnsAnswerError(header: DnsResponseHeader | null, recordType: string): string {
+  const type = recordType.toUpperCase();
+  if (!header) {
+    return `未在响应中找到有效的 ${type} 记录。`;
+  }
+  let message: string;
+  if (header.rcode === 0) {
+    message = `解析器返回 NOERROR，但响应中没有 ${type} 记录（NODATA）。`;
+  } else if (header.rcode === 3) {
+    message = "解析器返回 NXDOMAIN：域名不存在。";
+  } else {
+    message = `解析器返回错误 ${header.rcode_name}（RCODE ${header.rcode}）。`;
+  }
+  return header.flags.tc ? `${message} 响应被截断（TC）。` : message;
+}
+
+function generateProbeLabel(prefix = "nx"): string {
+  const bytes = new Uint8Array(8);
+  crypto.getRandomValues(bytes);
+  return `${prefix}-${Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+}
+
 function generateRequestId(): number {
   if (typeof crypto !== "undefined" && "getRandomValues" in crypto) {
     const arr = new Uint16Array(1);
@@ -868,10 +5508,8 @@ function normalizeDomain(domain: string): string {
 }
 
 function recordTypeToNumber(recordType: string): number {
-  const upper = recordType.toUpperCase();
-  if (upper === "A") return 1;
-  if (upper === "AAAA") return 28;
-  if (upper === "HTTPS") return HTTPS_RECORD_TYPE;
+  const known = DNS_RECORD_TYPES[recordType.toUpperCase()];
+  if (known !== undefined) return known;
   const numeric = Number(recordType);
   if (Number.isFinite(numeric) && numeric > 0) {
     return numeric;
@@ -879,6 +5517,13 @@ function recordTypeToNumber(recordType: string): number {
   throw new Error(`不支持的 DNS 记录类型: ${recordType}`);
 }
 
+function recordTypeName(type: number): string {
+  for (const [name, code] of Object.entries(DNS_RECORD_TYPES)) {
+    if (code === type) return name;
+  }
+  return `TYPE${type}`;
+}
+
 function isTextContentType(contentType: string | null): boolean {
   if (!contentType) return false;
   const normalized = contentType.toLowerCase();
@@ -889,48 +5534,29 @@ function bytesToBase64Url(bytes: Uint8Array): string {
   return bytesToBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/g, "");
 }
 
-function extractIpsFromAnswer(json: unknown): string[] {
+function extractHttpsRecords(json: unknown): HttpsRecordDetails[] {
   const answers = extractAnswerArray(json);
   if (!answers) return [];
-  const seen = new Set<string>();
-  for (const answer of answers) {
-    if (typeof answer !== "object" || !answer) continue;
-    const data = (answer as Record<string, unknown>).data;
-    if (typeof data === "string" && isIpAddress(data)) {
-      seen.add(data);
-    }
-  }
-  return Array.from(seen);
-}
-
-function extractHttpsRecord(json: unknown): string | null {
-  const answers = extractAnswerArray(json);
-  if (!answers) return null;
+  const records: HttpsRecordDetails[] = [];
   for (const answer of answers) {
     if (typeof answer !== "object" || !answer) continue;
     const record = answer as Record<string, unknown>;
     const type = typeof record.type === "number" ? record.type : parseInt(String(record.type), 10);
-    if (type === HTTPS_RECORD_TYPE) {
-      const data = record.data;
-      if (typeof data === "string" && data.includes("ech=")) {
-        return data;
-      }
+    if (type === HTTPS_RECORD_TYPE && typeof record.data === "string") {
+      const parsed = parseHttpsRecordData(record.data);
+      if (parsed) records.push(parsed);
     }
   }
-  return null;
+  return records;
 }
 
-function extractAnswerArray(json: unknown): unknown[] | null {
+function extractAnswerArray(json: unknown, section: "Answer" | "Authority" = "Answer"): unknown[] | null {
   if (!json || typeof json !== "object") return null;
-  const answer = (json as Record<string, unknown>).Answer;
+  const answer = (json as Record<string, unknown>)[section];
   if (!Array.isArray(answer)) return null;
   return answer;
 }
 
-function isIpAddress(value: string): boolean {
-  return IP_V4_REGEX.test(value) || IP_V6_REGEX.test(value);
-}
-
 function setsAreEqual<T>(a: Set<T>, b: Set<T>): boolean {
   if (a.size !== b.size) return false;
   for (const item of a) {
@@ -991,12 +5617,32 @@ function createErrorResponse(message: string, status = 500, error?: unknown): Re
   return createJsonResponse(payload, { status });
 }
 
+function createServerErrorResponse(error: unknown): Response {
+  if (error instanceof ConfigurationError) {
+    return createErrorResponse(`服务器配置错误：${error.message}`, 500, error);
+  }
+  return createErrorResponse("服务器内部错误", 500, error);
+}
+
 function withCors(response: Response): Response {
   const headers = new Headers(response.headers);
   headers.set("Access-Control-Allow-Origin", "*");
   headers.set("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-  headers.set("Access-Control-Allow-Headers", "Content-Type");
-  return new Response(response.body, { ...response, headers });
+  headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  headers.set("Access-Control-Expose-Headers", "Retry-After");
+  return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+}
+
+/** 携带 API Key 的响应只向该 Key 允许的来源开放，不再使用通配的 `*`。 */
+function withKeyCors(response: Response, origin: string | null, apiKey: ApiKey): Response {
+  const headers = new Headers(response.headers);
+  headers.append("Vary", "Origin");
+  if (origin && (!apiKey.origins || apiKey.origins.includes(origin.toLowerCase()))) {
+    headers.set("Access-Control-Allow-Origin", origin);
+  } else {
+    headers.delete("Access-Control-Allow-Origin");
+  }
+  return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
 }
 
 function isJsonContentType(contentType: string | null): boolean {
@@ -1039,122 +5685,360 @@ function bytesToBase64(bytes: Uint8Array): string {
   return Buffer.from(binary, "binary").toString("base64");
 }
 
-function extractIpsFromDnsMessage(buffer: ArrayBuffer): string[] {
+function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || /[^0-9a-fA-F]/.test(hex)) {
+    throw new Error("十六进制数据格式非法。");
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i += 1) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  const normalized = value.replace(/-/g, "+").replace(/_/g, "/").replace(/\s+/g, "");
+  const padded = normalized + "=".repeat((4 - (normalized.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function parseDnsMessage(buffer: ArrayBuffer): ParsedDnsMessage {
   const message = new Uint8Array(buffer);
-  if (message.length < 12) return [];
+  if (message.length < 12) {
+    throw new Error("DNS 报文过短。");
+  }
   const view = new DataView(buffer);
-  const qdcount = view.getUint16(4);
-  const ancount = view.getUint16(6);
+  const counts = [view.getUint16(4), view.getUint16(6), view.getUint16(8), view.getUint16(10)];
   let offset = 12;
-  const seen = new Set<string>();
 
-  for (let i = 0; i < qdcount; i += 1) {
+  const questions: ParsedDnsMessage["questions"] = [];
+  for (let i = 0; i < counts[0]; i += 1) {
     const nameInfo = readDnsName(message, offset);
     offset += nameInfo.length;
+    if (offset + 4 > message.length) {
+      throw new Error("DNS 问题段被截断。");
+    }
+    questions.push({ name: normalizeDnsName(nameInfo.name), type: view.getUint16(offset), class: view.getUint16(offset + 2) });
     offset += 4; // type + class
   }
 
-  for (let i = 0; i < ancount; i += 1) {
-    const nameInfo = readDnsName(message, offset);
-    offset += nameInfo.length;
+  const sections: ParsedDnsRecord[][] = [[], [], []];
+  for (let section = 0; section < 3; section += 1) {
+    for (let i = 0; i < counts[section + 1]; i += 1) {
+      const nameInfo = readDnsName(message, offset);
+      offset += nameInfo.length;
+
+      if (offset + 10 > message.length) {
+        throw new Error("DNS 资源记录头部被截断。");
+      }
+      const type = view.getUint16(offset);
+      const recordClass = view.getUint16(offset + 2);
+      const ttl = view.getUint32(offset + 4);
+      const rdlength = view.getUint16(offset + 8);
+      offset += 10;
+      if (offset + rdlength > message.length) {
+        throw new Error("DNS 资源记录 RDATA 超出报文范围。");
+      }
+
+      sections[section].push({
+        name: normalizeDnsName(nameInfo.name),
+        type,
+        class: recordClass,
+        ttl,
+        offset,
+        length: rdlength,
+        data: type === OPT_RECORD_TYPE ? "" : decodeRdata(message, offset, rdlength, type),
+      });
+      offset += rdlength;
+    }
+  }
+
+  return {
+    message,
+    id: view.getUint16(0),
+    flags: view.getUint16(2),
+    rcode: view.getUint16(2) & 0x000f,
+    questions,
+    answers: sections[0],
+    authority: sections[1],
+    additional: sections[2],
+  };
+}
+
+function toDnsRecord(record: ParsedDnsRecord): DnsRecord {
+  return {
+    name: record.name,
+    type: recordTypeName(record.type),
+    ttl: record.ttl,
+    data: record.data,
+  };
+}
+
+function decodeRdata(message: Uint8Array, offset: number, length: number, type: number): string {
+  const view = new DataView(message.buffer, message.byteOffset + offset, length);
+  const generic = () => formatGenericRdata(message.subarray(offset, offset + length));
+  try {
+    switch (type) {
+      case 1:
+        return length === 4 ? formatIpv4(message.subarray(offset, offset + 4)) : generic();
+      case 28:
+        return length === 16 ? formatIpv6(message.subarray(offset, offset + 16)) : generic();
+      case 2:
+      case 5:
+      case 12:
+        return normalizeDnsName(readDnsName(message, offset).name);
+      case 6: {
+        const mname = readDnsName(message, offset);
+        const rname = readDnsName(message, offset + mname.length);
+        const cursor = mname.length + rname.length;
+        if (cursor + 20 > length) return generic();
+        const numbers = [0, 4, 8, 12, 16].map((delta) => view.getUint32(cursor + delta));
+        return [normalizeDnsName(mname.name), normalizeDnsName(rname.name), ...numbers].join(" ");
+      }
+      case 15: {
+        if (length < 3) return generic();
+        return `${view.getUint16(0)} ${normalizeDnsName(readDnsName(message, offset + 2).name)}`;
+      }
+      case 16: {
+        const segments: string[] = [];
+        let cursor = 0;
+        while (cursor < length) {
+          const segmentLength = message[offset + cursor];
+          cursor += 1;
+          if (cursor + segmentLength > length) return generic();
+          segments.push(readLabel(message, offset + cursor, segmentLength));
+          cursor += segmentLength;
+        }
+        return formatTxtSegments(segments);
+      }
+      case 33: {
+        if (length < 7) return generic();
+        const target = normalizeDnsName(readDnsName(message, offset + 6).name);
+        return `${view.getUint16(0)} ${view.getUint16(2)} ${view.getUint16(4)} ${target}`;
+      }
+      case 64:
+      case HTTPS_RECORD_TYPE:
+        return parseHttpsSvcbRecord(message, offset, length).presentation || generic();
+      case DS_RECORD_TYPE: {
+        if (length < 5) return generic();
+        const digest = Array.from(message.subarray(offset + 4, offset + length), (byte) => byte.toString(16).padStart(2, "0")).join("");
+        return `${view.getUint16(0)} ${message[offset + 2]} ${message[offset + 3]} ${digest.toUpperCase()}`;
+      }
+      case RRSIG_RECORD_TYPE: {
+        if (length < 19) return generic();
+        const signer = readDnsName(message, offset + 18);
+        const signature = bytesToBase64(message.subarray(offset + 18 + signer.length, offset + length));
+        return [
+          recordTypeName(view.getUint16(0)),
+          message[offset + 2],
+          message[offset + 3],
+          view.getUint32(4),
+          formatDnssecTime(view.getUint32(8)),
+          formatDnssecTime(view.getUint32(12)),
+          view.getUint16(16),
+          normalizeDnsName(signer.name),
+          signature,
+        ].join(" ");
+      }
+      case DNSKEY_RECORD_TYPE: {
+        if (length < 4) return generic();
+        return `${view.getUint16(0)} ${message[offset + 2]} ${message[offset + 3]} ${bytesToBase64(message.subarray(offset + 4, offset + length))}`;
+      }
+      case 257: {
+        if (length < 2) return generic();
+        const tagLength = message[offset + 1];
+        if (2 + tagLength > length) return generic();
+        const tag = readLabel(message, offset + 2, tagLength).toLowerCase();
+        const value = readLabel(message, offset + 2 + tagLength, length - 2 - tagLength);
+        return `${message[offset]} ${tag} "${escapePresentation(value, false)}"`;
+      }
+      default:
+        return generic();
+    }
+  } catch {
+    return generic();
+  }
+}
+
+function formatDnssecTime(seconds: number): string {
+  return new Date(seconds * 1000).toISOString().replace(/[-:T]/g, "").slice(0, 14);
+}
+
+function formatGenericRdata(bytes: Uint8Array): string {
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return hex ? `\\# ${bytes.length} ${hex}` : "\\# 0";
+}
+
+function formatTxtSegments(segments: string[]): string {
+  return segments.map((segment) => `"${escapePresentation(segment, false)}"`).join(" ");
+}
+
+function normalizeDnsName(name: string): string {
+  const trimmed = name.trim().replace(/\.$/, "").toLowerCase();
+  return trimmed || ".";
+}
 
-    if (offset + 10 > message.length) break;
-    const type = view.getUint16(offset);
-    offset += 2;
-    offset += 2; // class
-    offset += 4; // ttl
-    const rdlength = view.getUint16(offset);
-    offset += 2;
-    if (offset + rdlength > message.length) break;
+function extractRecordsFromAnswer(json: unknown, section: "Answer" | "Authority" = "Answer"): DnsRecord[] {
+  const answers = extractAnswerArray(json, section);
+  if (!answers) return [];
+  const records: DnsRecord[] = [];
+  for (const answer of answers) {
+    if (typeof answer !== "object" || !answer) continue;
+    const record = answer as Record<string, unknown>;
+    const type = typeof record.type === "number" ? record.type : parseInt(String(record.type), 10);
+    if (!Number.isFinite(type) || typeof record.data !== "string") continue;
+    const data = normalizeJsonRecordData(type, record.data);
+    if (data === null) continue;
+    records.push({
+      name: normalizeDnsName(typeof record.name === "string" ? record.name : ""),
+      type: recordTypeName(type),
+      ttl: typeof record.TTL === "number" ? record.TTL : null,
+      data,
+    });
+  }
+  return records;
+}
 
-    if (type === 1 && rdlength === 4) {
-      const ip = formatIpv4(message.subarray(offset, offset + 4));
-      seen.add(ip);
-    } else if (type === 28 && rdlength === 16) {
-      const ip = formatIpv6(message.subarray(offset, offset + 16));
-      seen.add(ip);
+function normalizeJsonRecordData(type: number, data: string): string | null {
+  const trimmed = data.trim();
+  const generic = trimmed.match(/^\\#\s+(\d+)\s*([0-9a-fA-F\s]*)$/);
+  if (generic) {
+    try {
+      const bytes = hexToBytes(generic[2].replace(/\s+/g, ""));
+      return decodeRdata(bytes, 0, bytes.length, type);
+    } catch {
+      return trimmed;
     }
-
-    offset += rdlength;
   }
 
-  return Array.from(seen);
+  const fields = trimmed.split(/\s+/);
+  switch (type) {
+    case 1:
+    case 28:
+      return canonicalizeIpAddress(trimmed);
+    case 2:
+    case 5:
+    case 12:
+      return normalizeDnsName(trimmed);
+    case 6:
+      if (fields.length !== 7) return trimmed;
+      return [normalizeDnsName(fields[0]), normalizeDnsName(fields[1]), ...fields.slice(2).map((field) => String(Number(field)))].join(" ");
+    case 15:
+      if (fields.length !== 2) return trimmed;
+      return `${Number(fields[0])} ${normalizeDnsName(fields[1])}`;
+    case 16:
+      return formatTxtSegments(parseTxtPresentation(trimmed));
+    case 33:
+      if (fields.length !== 4) return trimmed;
+      return `${Number(fields[0])} ${Number(fields[1])} ${Number(fields[2])} ${normalizeDnsName(fields[3])}`;
+    case 64:
+    case HTTPS_RECORD_TYPE:
+      return parseSvcbPresentation(trimmed).presentation || trimmed;
+    case 257: {
+      const match = trimmed.match(/^(\d+)\s+(\S+)\s+(.*)$/);
+      if (!match) return trimmed;
+      return `${Number(match[1])} ${match[2].toLowerCase()} "${escapePresentation(unescapePresentation(stripPresentationQuotes(match[3])), false)}"`;
+    }
+    default:
+      return trimmed;
+  }
 }
 
-function findHttpsRecordInDnsMessage(buffer: ArrayBuffer): { found: boolean; record?: string; error?: string } {
-  const message = new Uint8Array(buffer);
-  if (message.length < 12) {
-    return { found: false, error: "DNS 报文过短。" };
+function parseTxtPresentation(value: string): string[] {
+  if (!value.startsWith("\"")) {
+    return [value];
   }
-  const view = new DataView(buffer);
-  const qdcount = view.getUint16(4);
-  const ancount = view.getUint16(6);
-  let offset = 12;
-  let fallbackRecord: string | undefined;
+  const segments: string[] = [];
+  for (const token of tokenizePresentation(value)) {
+    segments.push(unescapePresentation(stripPresentationQuotes(token)));
+  }
+  return segments;
+}
 
-  try {
-    for (let i = 0; i < qdcount; i += 1) {
-      const nameInfo = readDnsName(message, offset);
-      offset += nameInfo.length;
-      offset += 4;
-    }
+function extractAnswerData(records: DnsRecord[] | undefined, recordType: string): string[] {
+  const type = recordType.toUpperCase();
+  return Array.from(new Set((records ?? []).filter((record) => record.type === type).map((record) => record.data)));
+}
 
-    for (let i = 0; i < ancount; i += 1) {
-      const nameInfo = readDnsName(message, offset);
-      offset += nameInfo.length;
+function buildCnameChain(records: DnsRecord[], name: string): string[] {
+  const chain = [normalizeDnsName(name)];
+  const seen = new Set(chain);
+  for (;;) {
+    const current = chain[chain.length - 1];
+    const next = records.find((record) => record.type === "CNAME" && record.name === current);
+    // 遇到环路即停止，避免恶意的 CNAME 循环使比对无法结束。
+    if (!next || seen.has(next.data)) break;
+    chain.push(next.data);
+    seen.add(next.data);
+  }
+  return chain;
+}
 
-      if (offset + 10 > message.length) break;
-      const type = view.getUint16(offset);
-      offset += 2;
-      offset += 2; // class
-      offset += 4; // ttl
-      const rdlength = view.getUint16(offset);
-      offset += 2;
-      if (offset + rdlength > message.length) break;
-
-      if (type === HTTPS_RECORD_TYPE) {
-        const { hasEch, description } = parseHttpsSvcbRecord(message, offset, rdlength);
-        if (hasEch) {
-          return { found: true, record: description };
-        }
-        if (!fallbackRecord && description) {
-          fallbackRecord = description;
-        }
-      }
+function extractAddresses(records: DnsRecord[]): string[] {
+  return Array.from(new Set(records.filter((record) => record.type === "A" || record.type === "AAAA").map((record) => record.data)));
+}
 
-      offset += rdlength;
-    }
+function findHttpsRecordInDnsMessage(buffer: ArrayBuffer): HttpsRecordSummary {
+  let parsed: ParsedDnsMessage;
+  try {
+    parsed = parseDnsMessage(buffer);
   } catch (error) {
-    return { found: false, error: normalizeErrorMessage(error) };
+    return { found: false, records: [], error: normalizeErrorMessage(error) };
   }
 
-  return { found: false, record: fallbackRecord };
+  const records = parsed.answers
+    .filter((record) => record.type === HTTPS_RECORD_TYPE)
+    .map((record) => parseHttpsSvcbRecord(parsed.message, record.offset, record.length));
+  return summarizeHttpsRecords(records);
+}
+
+function summarizeHttpsRecords(records: HttpsRecordDetails[]): HttpsRecordSummary {
+  const withEch = records.filter((record) => record.ech_config_list);
+  const valid = withEch.find((record) => record.ech_config_list?.valid);
+  if (valid) {
+    return { found: true, record: valid.presentation, echConfigList: valid.ech_config_list, records };
+  }
+  if (withEch.length > 0) {
+    const invalid = withEch[0];
+    return {
+      found: false,
+      record: invalid.presentation,
+      echConfigList: invalid.ech_config_list,
+      records,
+      error: describeEchConfigFailure(invalid.ech_config_list),
+    };
+  }
+  return { found: false, record: records[0]?.presentation, records };
 }
 
-function parseHttpsSvcbRecord(message: Uint8Array, offset: number, rdlength: number): { hasEch: boolean; description: string } {
-  if (offset + rdlength > message.length) {
-    return { hasEch: false, description: "" };
+function parseHttpsSvcbRecord(message: Uint8Array, offset: number, rdlength: number): HttpsRecordDetails {
+  if (offset + rdlength > message.length || rdlength < 3) {
+    return createInvalidSvcbRecord(`HTTPS 记录 RDATA 长度 ${rdlength} 非法。`);
   }
 
   const view = new DataView(message.buffer, message.byteOffset + offset, rdlength);
   let cursor = 0;
-  if (rdlength < 4) {
-    return { hasEch: false, description: "" };
-  }
 
   const priority = view.getUint16(cursor);
   cursor += 2;
 
   const nameInfo = readDnsName(message, offset + cursor);
   cursor += nameInfo.length;
-  const targetName = nameInfo.name || ".";
+  const target = nameInfo.name || ".";
 
-  const params: string[] = [];
-  let hasEch = false;
-  let echBase64: string | undefined;
+  const params: SvcParams = {};
+  const issues: string[] = [];
+  let echConfigList: EchConfigList | undefined;
+  let previousKey = -1;
 
   while (cursor < rdlength) {
     if (cursor + 4 > rdlength) {
+      issues.push("SvcParam 头部被截断。");
       break;
     }
     const key = view.getUint16(cursor);
@@ -1162,26 +6046,291 @@ function parseHttpsSvcbRecord(message: Uint8Array, offset: number, rdlength: num
     const valueLength = view.getUint16(cursor);
     cursor += 2;
     if (cursor + valueLength > rdlength) {
+      issues.push(`${svcParamKeyName(key)} 的值超出 RDATA 范围。`);
       break;
     }
+    if (key <= previousKey) {
+      issues.push(`SvcParamKey ${svcParamKeyName(key)} 未按升序排列或重复出现。`);
+    }
+    previousKey = key;
     const valueBytes = message.subarray(offset + cursor, offset + cursor + valueLength);
+    const issue = decodeSvcParamValue(params, key, valueBytes);
+    if (issue) issues.push(issue);
     if (key === 5) {
-      hasEch = true;
-      echBase64 = bytesToBase64(valueBytes);
+      echConfigList = parseEchConfigList(valueBytes);
     }
-    params.push(`key${key}(${valueLength}B)`);
     cursor += valueLength;
   }
 
-  let description = `priority=${priority} target=${targetName}`;
-  if (params.length > 0) {
-    description += ` params=[${params.join(", ")}]`;
+  if (priority === 0 && Object.keys(params).length > 0) {
+    issues.push("AliasMode（priority=0）记录不应携带 SvcParams。");
+  }
+
+  return createSvcbRecord(priority, target, params, echConfigList, issues);
+}
+
+function decodeSvcParamValue(params: SvcParams, key: number, value: Uint8Array): string | undefined {
+  const view = new DataView(value.buffer, value.byteOffset, value.byteLength);
+  switch (key) {
+    case 0: {
+      if (value.length === 0 || value.length % 2 !== 0) return `mandatory 长度 ${value.length} 非法。`;
+      const keys: string[] = [];
+      for (let i = 0; i < value.length; i += 2) {
+        keys.push(svcParamKeyName(view.getUint16(i)));
+      }
+      params.mandatory = keys;
+      return undefined;
+    }
+    case 1: {
+      const protocols: string[] = [];
+      let cursor = 0;
+      while (cursor < value.length) {
+        const length = value[cursor];
+        cursor += 1;
+        if (length === 0 || cursor + length > value.length) return "alpn 列表格式非法。";
+        protocols.push(readLabel(value, cursor, length));
+        cursor += length;
+      }
+      if (protocols.length === 0) return "alpn 列表不能为空。";
+      params.alpn = protocols;
+      return undefined;
+    }
+    case 2:
+      params.no_default_alpn = true;
+      return value.length === 0 ? undefined : "no-default-alpn 不应携带值。";
+    case 3:
+      if (value.length !== 2) return `port 长度应为 2 字节，实际为 ${value.length} 字节。`;
+      params.port = view.getUint16(0);
+      return undefined;
+    case 4: {
+      if (value.length === 0 || value.length % 4 !== 0) return `ipv4hint 长度 ${value.length} 非法。`;
+      const hints: string[] = [];
+      for (let i = 0; i < value.length; i += 4) {
+        hints.push(formatIpv4(value.subarray(i, i + 4)));
+      }
+      params.ipv4hint = hints;
+      return undefined;
+    }
+    case 5:
+      params.ech = bytesToBase64(value);
+      return undefined;
+    case 6: {
+      if (value.length === 0 || value.length % 16 !== 0) return `ipv6hint 长度 ${value.length} 非法。`;
+      const hints: string[] = [];
+      for (let i = 0; i < value.length; i += 16) {
+        hints.push(formatIpv6(value.subarray(i, i + 16)));
+      }
+      params.ipv6hint = hints;
+      return undefined;
+    }
+    case 7:
+      params.dohpath = new TextDecoder().decode(value);
+      return params.dohpath.includes("{?dns}") ? undefined : "dohpath 缺少 {?dns} 变量。";
+    default:
+      params.unknown = [...(params.unknown ?? []), { key, value: readLabel(value, 0, value.length) }];
+      return undefined;
+  }
+}
+
+function parseHttpsRecordData(data: string): HttpsRecordDetails | null {
+  const trimmed = data.trim();
+  if (!trimmed) return null;
+  const generic = trimmed.match(/^\\#\s+(\d+)\s*([0-9a-fA-F\s]*)$/);
+  if (generic) {
+    try {
+      const bytes = hexToBytes(generic[2].replace(/\s+/g, ""));
+      if (bytes.length !== Number(generic[1])) {
+        return createInvalidSvcbRecord(`RFC 3597 通用格式声明长度 ${generic[1]} 与实际 ${bytes.length} 字节不符。`);
+      }
+      return parseHttpsSvcbRecord(bytes, 0, bytes.length);
+    } catch (error) {
+      return createInvalidSvcbRecord(normalizeErrorMessage(error));
+    }
+  }
+  return parseSvcbPresentation(trimmed);
+}
+
+function parseSvcbPresentation(text: string): HttpsRecordDetails {
+  const tokens = tokenizePresentation(text);
+  const priority = Number(tokens[0]);
+  if (tokens.length < 2 || !Number.isInteger(priority) || priority < 0 || priority > 0xffff) {
+    return createInvalidSvcbRecord(`无法解析 HTTPS 记录：${text}`);
+  }
+  const target = tokens[1] === "." ? "." : tokens[1].replace(/\.$/, "");
+
+  const params: SvcParams = {};
+  const issues: string[] = [];
+  let echConfigList: EchConfigList | undefined;
+
+  for (const token of tokens.slice(2)) {
+    const separator = token.indexOf("=");
+    const keyName = (separator === -1 ? token : token.slice(0, separator)).toLowerCase();
+    const rawValue = separator === -1 ? "" : stripPresentationQuotes(token.slice(separator + 1));
+    const key = svcParamKeyFromName(keyName);
+    if (key === null) {
+      issues.push(`未知的 SvcParamKey：${keyName}`);
+      continue;
+    }
+    switch (key) {
+      case 0:
+        params.mandatory = splitPresentationList(rawValue);
+        break;
+      case 1:
+        params.alpn = splitPresentationList(rawValue);
+        break;
+      case 2:
+        params.no_default_alpn = true;
+        break;
+      case 3: {
+        const port = Number(rawValue);
+        if (Number.isInteger(port) && port >= 0 && port <= 0xffff) {
+          params.port = port;
+        } else {
+          issues.push(`port 值非法：${rawValue}`);
+        }
+        break;
+      }
+      case 4:
+        params.ipv4hint = splitPresentationList(rawValue).map((hint) => canonicalizeIpAddress(hint) ?? hint);
+        break;
+      case 5:
+        params.ech = rawValue;
+        echConfigList = parseEchConfigListBase64(rawValue);
+        break;
+      case 6:
+        params.ipv6hint = splitPresentationList(rawValue).map((hint) => canonicalizeIpAddress(hint) ?? hint);
+        break;
+      case 7:
+        params.dohpath = unescapePresentation(rawValue);
+        break;
+      default:
+        params.unknown = [...(params.unknown ?? []), { key, value: unescapePresentation(rawValue) }];
+    }
+  }
+
+  return createSvcbRecord(priority, target, params, echConfigList, issues);
+}
+
+function createSvcbRecord(priority: number, target: string, params: SvcParams, echConfigList: EchConfigList | undefined, issues: string[]): HttpsRecordDetails {
+  return {
+    priority,
+    target,
+    mode: priority === 0 ? "alias" : "service",
+    params,
+    presentation: formatSvcbPresentation(priority, target, params),
+    ech_config_list: echConfigList,
+    error: issues.length > 0 ? issues.join("；") : undefined,
+  };
+}
+
+function createInvalidSvcbRecord(error: string): HttpsRecordDetails {
+  return { priority: 0, target: ".", mode: "alias", params: {}, presentation: "", error };
+}
+
+function formatSvcbPresentation(priority: number, target: string, params: SvcParams): string {
+  const parts = [String(priority), target === "." ? "." : `${target}.`];
+  if (params.mandatory) parts.push(`mandatory=${params.mandatory.join(",")}`);
+  if (params.alpn) parts.push(`alpn=${formatPresentationValue(params.alpn.map((item) => escapePresentation(item, true)).join(","))}`);
+  if (params.no_default_alpn) parts.push("no-default-alpn");
+  if (params.port !== undefined) parts.push(`port=${params.port}`);
+  if (params.ipv4hint) parts.push(`ipv4hint=${params.ipv4hint.join(",")}`);
+  if (params.ech !== undefined) parts.push(`ech=${params.ech}`);
+  if (params.ipv6hint) parts.push(`ipv6hint=${params.ipv6hint.join(",")}`);
+  if (params.dohpath !== undefined) parts.push(`dohpath=${formatPresentationValue(escapePresentation(params.dohpath, false))}`);
+  for (const { key, value } of [...(params.unknown ?? [])].sort((a, b) => a.key - b.key)) {
+    parts.push(value ? `key${key}=${formatPresentationValue(escapePresentation(value, false))}` : `key${key}`);
+  }
+  return parts.join(" ");
+}
+
+function svcParamKeyName(key: number): string {
+  return SVC_PARAM_KEYS[key] ?? `key${key}`;
+}
+
+function svcParamKeyFromName(name: string): number | null {
+  for (const [key, value] of Object.entries(SVC_PARAM_KEYS)) {
+    if (value === name) return Number(key);
+  }
+  const generic = name.match(/^key(\d{1,5})$/);
+  if (generic && Number(generic[1]) <= 0xffff) return Number(generic[1]);
+  return null;
+}
+
+function tokenizePresentation(text: string): string[] {
+  const tokens: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (char === "\\" && i + 1 < text.length) {
+      current += char + text[i + 1];
+      i += 1;
+      continue;
+    }
+    if (char === "\"") {
+      quoted = !quoted;
+      current += char;
+      continue;
+    }
+    if (!quoted && /\s/.test(char)) {
+      if (current) tokens.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  if (current) tokens.push(current);
+  return tokens;
+}
+
+function stripPresentationQuotes(value: string): string {
+  return value.length >= 2 && value.startsWith("\"") && value.endsWith("\"") ? value.slice(1, -1) : value;
+}
+
+function splitPresentationList(value: string): string[] {
+  const items: string[] = [];
+  let current = "";
+  for (let i = 0; i < value.length; i += 1) {
+    const char = value[i];
+    if (char === "\\" && i + 1 < value.length) {
+      current += char + value[i + 1];
+      i += 1;
+      continue;
+    }
+    if (char === ",") {
+      items.push(unescapePresentation(current));
+      current = "";
+      continue;
+    }
+    current += char;
   }
-  if (hasEch) {
-    description += echBase64 ? ` echconfig(base64)=${echBase64}` : " echconfig";
+  items.push(unescapePresentation(current));
+  return items.filter(Boolean);
+}
+
+function unescapePresentation(value: string): string {
+  return value.replace(/\\(\d{3}|.)/g, (_, escaped: string) =>
+    escaped.length === 3 ? String.fromCharCode(Number(escaped)) : escaped
+  );
+}
+
+function escapePresentation(value: string, escapeCommas: boolean): string {
+  let escaped = "";
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (code < 0x20 || code > 0x7e) {
+      escaped += `\\${String(code & 0xff).padStart(3, "0")}`;
+    } else if (char === "\\" || char === "\"" || (escapeCommas && char === ",")) {
+      escaped += `\\${char}`;
+    } else {
+      escaped += char;
+    }
   }
+  return escaped;
+}
 
-  return { hasEch, description };
+function formatPresentationValue(value: string): string {
+  return /[\s;()]/.test(value) ? `"${value}"` : value;
 }
 
 function readDnsName(message: Uint8Array, offset: number): { name: string; length: number } {
@@ -1259,16 +6408,650 @@ function formatIpv4(bytes: Uint8Array): string {
 }
 
 function formatIpv6(bytes: Uint8Array): string {
-  const segments: string[] = [];
+  const segments: number[] = [];
   for (let i = 0; i < 8; i += 1) {
-    const segment = (bytes[i * 2] << 8) | bytes[i * 2 + 1];
-    segments.push(segment.toString(16));
+    segments.push((bytes[i * 2] << 8) | bytes[i * 2 + 1]);
   }
-  return segments.join(":");
+  return formatIpv6Segments(segments);
+}
+
+// RFC 5952：小写、省略前导零，最长（等长时取最前）的两组及以上连续零组以 "::" 表示。
+function formatIpv6Segments(segments: number[]): string {
+  if (segments.slice(0, 5).every((segment) => segment === 0) && segments[5] === 0xffff) {
+    return `::ffff:${segments[6] >> 8}.${segments[6] & 0xff}.${segments[7] >> 8}.${segments[7] & 0xff}`;
+  }
+
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < 8; i += 1) {
+    if (segments[i] !== 0) continue;
+    let length = 0;
+    while (i + length < 8 && segments[i + length] === 0) length += 1;
+    if (length > bestLength) {
+      bestStart = i;
+      bestLength = length;
+    }
+    i += length;
+  }
+
+  const hex = segments.map((segment) => segment.toString(16));
+  if (bestLength < 2) return hex.join(":");
+  return `${hex.slice(0, bestStart).join(":")}::${hex.slice(bestStart + bestLength).join(":")}`;
+}
+
+function parseIpv6(value: string): number[] | null {
+  let text = value.trim().toLowerCase();
+  if (!text || /[^0-9a-f:.]/.test(text)) return null;
+
+  const tail: number[] = [];
+  const ipv4Match = text.match(/^(.*:)(\d{1,3}(?:\.\d{1,3}){3})$/);
+  if (ipv4Match) {
+    const octets = parseIpv4(ipv4Match[2]);
+    if (!octets) return null;
+    tail.push((octets[0] << 8) | octets[1], (octets[2] << 8) | octets[3]);
+    text = ipv4Match[1].endsWith("::") ? ipv4Match[1] : ipv4Match[1].slice(0, -1);
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const parseGroups = (part: string): number[] | null => {
+    if (!part) return [];
+    const groups = part.split(":");
+    if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+    return groups.map((group) => parseInt(group, 16));
+  };
+  const head = parseGroups(halves[0]);
+  const rest = halves.length === 2 ? parseGroups(halves[1]) : [];
+  if (!head || !rest) return null;
+
+  const explicit = head.length + rest.length + tail.length;
+  if (halves.length === 1) {
+    return explicit === 8 ? [...head, ...tail] : null;
+  }
+  if (explicit > 7) return null;
+  return [...head, ...new Array<number>(8 - explicit).fill(0), ...rest, ...tail];
+}
+
+function parseIpv4(value: string): number[] | null {
+  if (!IP_V4_REGEX.test(value)) return null;
+  const octets = value.split(".").map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+function canonicalizeIpAddress(value: string): string | null {
+  const trimmed = value.trim();
+  const ipv4 = parseIpv4(trimmed);
+  if (ipv4) return ipv4.join(".");
+  const ipv6 = parseIpv6(trimmed);
+  return ipv6 ? formatIpv6Segments(ipv6) : null;
 }
 
 const IP_V4_REGEX = /^(?:\d{1,3}\.){3}\d{1,3}$/;
-const IP_V6_REGEX = /^(?:[A-Fa-f0-9]{1,4}:){7}[A-Fa-f0-9]{1,4}$/;
+
+function schemaRef(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function providerMap(schema: JsonSchema, description = "以解析器键（目标为 target）索引。"): JsonSchema {
+  return { type: "object", description, additionalProperties: schema };
+}
+
+function nullable(schema: JsonSchema): JsonSchema {
+  return { ...schema, type: [schema.type as JsonSchemaType, "null"] };
+}
+
+function jsonContent(schema: JsonSchema) {
+  return { "application/json": { schema } };
+}
+
+function errorResponse(description: string) {
+  return { description, content: jsonContent(schemaRef("ErrorResponse")) };
+}
+
+const STRING_SCHEMA: JsonSchema = { type: "string" };
+const STRING_ARRAY_SCHEMA: JsonSchema = { type: "array", items: STRING_SCHEMA };
+const INTEGER_SCHEMA: JsonSchema = { type: "integer" };
+const LABELS_SCHEMA: JsonSchema = { type: "object", description: "解析器键到展示名称的映射。", additionalProperties: STRING_SCHEMA };
+const DOH_STATUS_SCHEMA: JsonSchema = { type: "string", enum: ["success", "failure", "partial_match", "resolver_error", "empty_answer"] };
+const REQUEST_MODE_SCHEMA: JsonSchema = { type: "string", enum: [...DOH_REQUEST_MODES] };
+
+/** 单次 DoH 请求与解析器合并结果（DohBaseResult）共有的字段。 */
+const DOH_RESULT_PROPERTIES: Record<string, JsonSchema> = {
+  status: nullable(INTEGER_SCHEMA),
+  ok: { type: "boolean" },
+  ips: STRING_ARRAY_SCHEMA,
+  records: { type: "array", items: schemaRef("DnsRecord") },
+  authority: { type: "array", items: schemaRef("DnsRecord") },
+  cname_chain: STRING_ARRAY_SCHEMA,
+  header: schemaRef("DnsResponseHeader"),
+  answer_status: { type: "string", enum: ["answer", "nodata", "nxdomain", "error"] },
+  latency_ms: nullable({ type: "number" }),
+  response_format: { type: "string", enum: ["json", "wire", "text", "unknown"] },
+  content_type: nullable(STRING_SCHEMA),
+  error: STRING_SCHEMA,
+};
+
+/** 探测类模式的解析器结果共有这些字段，各模式特有的字段在对应 Schema 中列出。 */
+function probeProviderSchema(properties: Record<string, JsonSchema>, probe: JsonSchema = schemaRef("DohProviderModeResult")): JsonSchema {
+  return {
+    type: "object",
+    required: ["supported", "note", "probes"],
+    properties: { supported: { type: "boolean" }, note: STRING_SCHEMA, ...properties, probes: { type: "array", items: probe } },
+  };
+}
+
+function probeApiSchema(description: string, query: JsonSchema, provider: JsonSchema): JsonSchema {
+  return {
+    type: "object",
+    description,
+    required: ["status", "message", "query", "labels", "providers"],
+    properties: { status: DOH_STATUS_SCHEMA, message: STRING_SCHEMA, query, labels: LABELS_SCHEMA, providers: providerMap(provider) },
+  };
+}
+
+const OPENAPI_SCHEMAS: Record<string, JsonSchema> = {
+  CheckRequest: {
+    type: "object",
+    description: "单次检测请求；各字段适用的模式见 description。拼错或未定义的字段会被拒绝。",
+    required: ["mode", "target"],
+    additionalProperties: false,
+    properties: {
+      mode: { type: "string", enum: [...CHECK_MODES] },
+      target: { type: "string", minLength: 1, description: "ech 模式为待检测域名，其余模式为目标 DoH 服务的 https URL。" },
+      record_type: { type: "string", enum: [...CHECK_RECORD_TYPES], default: "A", "x-case-insensitive": true, description: "doh / dnssec / ecs / cache 模式的查询类型，不区分大小写。" },
+      name: { type: "string", description: "查询或生成随机子域名所用的域名，默认为 DEFAULT_TEST_DOMAIN。" },
+      dual_stack: { type: "boolean", description: "仅 doh：同时查询 A 与 AAAA。" },
+      compare: { type: "string", enum: [...ANSWER_COMPARE_MODES], default: "exact", description: "仅 doh：地址比对方式，内嵌页面默认使用 cdn。" },
+      subnets: { type: "array", items: STRING_SCHEMA, minItems: 1, maxItems: MAX_ECS_PROBE_SUBNETS, description: "仅 ecs：探测使用的 CIDR。" },
+      samples: { type: "integer", minimum: 1, maximum: MAX_BENCHMARK_SAMPLES, default: DEFAULT_BENCHMARK_SAMPLES, description: "仅 benchmark：每组查询次数。" },
+    },
+  },
+  BatchRequest: {
+    type: "object",
+    required: ["items"],
+    additionalProperties: false,
+    properties: {
+      items: { type: "array", items: schemaRef("CheckRequest"), minItems: 1, description: `数量上限为 BATCH_MAX_ITEMS（默认 ${DEFAULT_BATCH_MAX_ITEMS}）；单项校验失败只影响该项。` },
+      concurrency: { type: "integer", minimum: 1, description: "并发上限，不超过 BATCH_CONCURRENCY。" },
+    },
+  },
+  ValidationIssue: {
+    type: "object",
+    required: ["field", "message"],
+    properties: { field: { type: "string", examples: ["items[0].mode"] }, message: STRING_SCHEMA },
+  },
+  ErrorResponse: {
+    type: "object",
+    required: ["status", "message"],
+    properties: {
+      status: { const: "error" },
+      message: STRING_SCHEMA,
+      error: { description: "服务器内部错误的详细信息。" },
+      errors: { type: "array", items: schemaRef("ValidationIssue"), description: "请求体校验失败时的逐字段错误。" },
+      retry_after: { type: "integer", description: "429 时需要等待的秒数，与 Retry-After 头一致。" },
+    },
+  },
+  DnsRecord: {
+    type: "object",
+    required: ["name", "type", "ttl", "data"],
+    properties: { name: STRING_SCHEMA, type: STRING_SCHEMA, ttl: nullable(INTEGER_SCHEMA), data: STRING_SCHEMA },
+  },
+  DnsResponseHeader: {
+    type: "object",
+    required: ["rcode", "rcode_name", "flags"],
+    properties: {
+      rcode: INTEGER_SCHEMA,
+      rcode_name: STRING_SCHEMA,
+      flags: {
+        type: "object",
+        description: "JSON 接口不提供的标志为 null。",
+        properties: Object.fromEntries(["qr", "aa", "tc", "rd", "ra", "ad", "cd"].map((flag) => [flag, { type: ["boolean", "null"] }])),
+      },
+    },
+  },
+  DohProviderModeResult: {
+    type: "object",
+    description: "一次 DoH 请求的结果；各模式的 probes 在此基础上附加 name、series 等字段。",
+    required: ["mode", "status", "ok", "ips", "latency_ms"],
+    properties: {
+      mode: REQUEST_MODE_SCHEMA,
+      record_type: STRING_SCHEMA,
+      ...DOH_RESULT_PROPERTIES,
+      supported: { type: "boolean" },
+      note: STRING_SCHEMA,
+    },
+  },
+  DohProviderResult: {
+    type: "object",
+    description: "单个解析器的汇总结果。",
+    required: ["status", "ok", "ips", "latency_ms", "attempted_formats"],
+    properties: {
+      ...DOH_RESULT_PROPERTIES,
+      attempted_formats: { type: "array", items: REQUEST_MODE_SCHEMA },
+      supported_formats: { type: "array", items: REQUEST_MODE_SCHEMA },
+      mode_results: { type: "array", items: schemaRef("DohProviderModeResult") },
+      families: providerMap(schemaRef("DohProviderResult"), "dual_stack 时按地址族（A、AAAA）索引。"),
+    },
+  },
+  AnswerSimilarity: {
+    type: "object",
+    required: ["score", "exact", "same_prefix", "same_asn", "unrelated", "target_asns", "reference_asns", "explanation"],
+    properties: {
+      score: { type: "number", minimum: 0, maximum: 1 },
+      exact: INTEGER_SCHEMA,
+      same_prefix: INTEGER_SCHEMA,
+      same_asn: INTEGER_SCHEMA,
+      unrelated: INTEGER_SCHEMA,
+      target_asns: STRING_ARRAY_SCHEMA,
+      reference_asns: STRING_ARRAY_SCHEMA,
+      explanation: STRING_SCHEMA,
+    },
+  },
+  EchProviderResult: {
+    type: "object",
+    required: ["found", "status", "latency_ms", "attempted_formats"],
+    properties: {
+      found: { type: "boolean" },
+      record: STRING_SCHEMA,
+      records: { type: "array", items: { type: "object", description: "HTTPS 记录：priority、target、mode、params（解码后的 SvcParams）、presentation、ech_config_list。" } },
+      ech_config_list: { type: "object", description: "解析后的 ECHConfigList：base64、valid、configs、error。" },
+      status: nullable(INTEGER_SCHEMA),
+      latency_ms: nullable({ type: "number" }),
+      response_format: { type: "string", enum: ["json", "wire", "text", "unknown"] },
+      content_type: nullable(STRING_SCHEMA),
+      attempted_formats: { type: "array", items: REQUEST_MODE_SCHEMA },
+      mode_results: { type: "array", items: { type: "object", description: "每种请求方式的结果，字段同 EchProviderResult，另含 mode、supported、note。" } },
+      error: STRING_SCHEMA,
+    },
+  },
+  DohEchComparison: {
+    type: "object",
+    required: ["providers", "matches", "consistent", "notes"],
+    properties: {
+      providers: providerMap(schemaRef("EchProviderResult")),
+      matches: providerMap({ type: ["boolean", "null"] }),
+      consistent: { type: ["boolean", "null"], description: "任一参考解析器不一致时为 false，全部一致时为 true，否则为 null。" },
+      notes: STRING_ARRAY_SCHEMA,
+    },
+  },
+  DohApiResponse: {
+    type: "object",
+    description: "mode = doh 的响应。",
+    required: ["status", "message", "query", "labels", "details", "comparison"],
+    properties: {
+      status: DOH_STATUS_SCHEMA,
+      message: STRING_SCHEMA,
+      query: schemaRef("DohQuery"),
+      labels: LABELS_SCHEMA,
+      details: providerMap(schemaRef("DohProviderResult")),
+      comparison: {
+        type: "object",
+        required: ["matches", "cname_chains"],
+        properties: {
+          matches: providerMap({ type: "boolean" }),
+          families: { type: "object", additionalProperties: providerMap({ type: "boolean" }) },
+          cname_chains: providerMap({ type: "boolean" }),
+          similarity: providerMap(schemaRef("AnswerSimilarity")),
+        },
+      },
+      ech_comparison: schemaRef("DohEchComparison"),
+    },
+  },
+  DohQuery: {
+    type: "object",
+    required: ["name", "record_type"],
+    properties: { name: STRING_SCHEMA, record_type: STRING_SCHEMA, dual_stack: { type: "boolean" }, compare: { type: "string", enum: [...ANSWER_COMPARE_MODES] } },
+  },
+  EchApiResponse: {
+    type: "object",
+    description: "mode = ech 的响应。",
+    required: ["ech_enabled", "message", "labels", "providers"],
+    properties: { ech_enabled: { type: "boolean" }, message: STRING_SCHEMA, labels: LABELS_SCHEMA, providers: providerMap(schemaRef("EchProviderResult")) },
+  },
+  DnssecApiResponse: {
+    type: "object",
+    description: "mode = dnssec 的响应。",
+    required: ["status", "message", "query", "labels", "details", "chain", "validation"],
+    properties: {
+      status: DOH_STATUS_SCHEMA,
+      message: STRING_SCHEMA,
+      query: schemaRef("DohQuery"),
+      labels: LABELS_SCHEMA,
+      details: providerMap(schemaRef("DohProviderResult")),
+      chain: {
+        type: "object",
+        required: ["status", "source", "signers", "zones", "queries"],
+        properties: {
+          status: { type: "string", enum: ["secure", "insecure", "bogus", "indeterminate"] },
+          source: nullable(STRING_SCHEMA),
+          signers: STRING_ARRAY_SCHEMA,
+          zones: { type: "array", items: { type: "object", description: "逐级区的 zone、status、dnskey_tags、ds_tags、algorithms、note。" } },
+          queries: INTEGER_SCHEMA,
+          error: STRING_SCHEMA,
+        },
+      },
+      validation: providerMap({
+        type: "object",
+        required: ["ad", "cd", "rrsig_count", "signatures_valid", "behaviour", "note"],
+        properties: {
+          ad: { type: ["boolean", "null"] },
+          cd: { type: ["boolean", "null"] },
+          rrsig_count: INTEGER_SCHEMA,
+          signatures_valid: { type: ["boolean", "null"] },
+          behaviour: { type: "string", enum: ["validating", "non_validating", "stripping", "unsigned", "unknown"] },
+          note: STRING_SCHEMA,
+        },
+      }),
+    },
+  },
+  EcsApiResponse: {
+    type: "object",
+    description: "mode = ecs 的响应。",
+    required: ["status", "message", "query", "subnets", "labels", "providers"],
+    properties: {
+      status: DOH_STATUS_SCHEMA,
+      message: STRING_SCHEMA,
+      query: schemaRef("DohQuery"),
+      subnets: STRING_ARRAY_SCHEMA,
+      labels: LABELS_SCHEMA,
+      providers: providerMap(probeProviderSchema({
+        behaviour: { type: "string", enum: ["honouring", "stripping", "ignoring", "unknown"] },
+        answers_vary: { type: "boolean", description: "不同子网的应答不同，或均与不带 ECS 的基线应答不同。" },
+        scope_prefixes: { type: "array", items: INTEGER_SCHEMA },
+      })),
+    },
+  },
+  PaddingApiResponse: probeApiSchema(
+    "mode = padding 的响应。",
+    { type: "object", properties: { name: STRING_SCHEMA, record_types: STRING_ARRAY_SCHEMA, query_block: INTEGER_SCHEMA } },
+    probeProviderSchema({
+      behaviour: { type: "string", enum: ["padded", "partial", "unpadded", "unknown"] },
+      block_size: nullable(INTEGER_SCHEMA),
+      response_lengths: { type: "array", items: INTEGER_SCHEMA },
+    })
+  ),
+  NxdomainApiResponse: probeApiSchema(
+    "mode = nxdomain 的响应。",
+    { type: "object", properties: { name: STRING_SCHEMA, probes: STRING_ARRAY_SCHEMA } },
+    probeProviderSchema({
+      behaviour: { type: "string", enum: ["intact", "rewriting", "inconsistent", "unknown"] },
+      rewritten_ips: STRING_ARRAY_SCHEMA,
+    })
+  ),
+  FilteringApiResponse: probeApiSchema(
+    "mode = filtering 的响应。",
+    { type: "object", properties: { domains: { type: "array", items: { type: "object", properties: { name: STRING_SCHEMA, category: STRING_SCHEMA } } } } },
+    probeProviderSchema({
+      blocked_categories: STRING_ARRAY_SCHEMA,
+      categories: {
+        type: "object",
+        additionalProperties: { type: "object", properties: { blocked: INTEGER_SCHEMA, passed: INTEGER_SCHEMA, total: INTEGER_SCHEMA } },
+      },
+    })
+  ),
+  LatencyStats: {
+    type: "object",
+    required: ["samples", "errors", "error_rate", "min", "p50", "p95", "max", "mean", "jitter"],
+    properties: {
+      samples: INTEGER_SCHEMA,
+      errors: INTEGER_SCHEMA,
+      error_rate: { type: "number" },
+      ...Object.fromEntries(["min", "p50", "p95", "max", "mean", "jitter"].map((key) => [key, { type: ["number", "null"] }])),
+    },
+  },
+  BenchmarkApiResponse: probeApiSchema(
+    "mode = benchmark 的响应。",
+    { type: "object", properties: { name: STRING_SCHEMA, samples: INTEGER_SCHEMA } },
+    probeProviderSchema({
+      mode: nullable(REQUEST_MODE_SCHEMA),
+      warmup_ms: nullable({ type: "number" }),
+      cached: schemaRef("LatencyStats"),
+      uncached: schemaRef("LatencyStats"),
+    })
+  ),
+  CacheApiResponse: probeApiSchema(
+    "mode = cache 的响应。",
+    { type: "object", properties: { name: STRING_SCHEMA, record_type: STRING_SCHEMA, samples: INTEGER_SCHEMA, interval_ms: INTEGER_SCHEMA } },
+    probeProviderSchema({
+      mode: nullable(REQUEST_MODE_SCHEMA),
+      behaviour: { type: "string", enum: ["caching", "pass_through", "multiple_caches", "unknown"] },
+      ttls: { type: "array", items: { type: "object", properties: { elapsed_ms: { type: "number" }, ttl: nullable(INTEGER_SCHEMA) } } },
+      ttl_min: nullable(INTEGER_SCHEMA),
+      ttl_max: nullable(INTEGER_SCHEMA),
+      ttl_resets: INTEGER_SCHEMA,
+      clamping: { type: "string", enum: ["raised", "capped", "none", "unknown"] },
+      cold_ms: nullable({ type: "number" }),
+      warm_ms: nullable({ type: "number" }),
+    })
+  ),
+  CheckResult: {
+    oneOf: ["DohApiResponse", "EchApiResponse", "DnssecApiResponse", "EcsApiResponse", "PaddingApiResponse", "NxdomainApiResponse", "FilteringApiResponse", "BenchmarkApiResponse", "CacheApiResponse"].map(schemaRef),
+  },
+  ResultPermalink: {
+    type: "object",
+    required: ["id", "url", "api_url", "expires_at"],
+    properties: { id: STRING_SCHEMA, url: { type: "string", format: "uri" }, api_url: { type: "string", format: "uri" }, expires_at: { type: "string", format: "date-time" } },
+  },
+  CheckResponse: {
+    description: "检测结果；绑定 RESULTS_KV 时附带 permalink。",
+    allOf: [schemaRef("CheckResult"), { type: "object", properties: { permalink: schemaRef("ResultPermalink") } }],
+  },
+  StoredCheckResult: {
+    type: "object",
+    required: ["id", "mode", "target", "created_at", "expires_at", "result"],
+    properties: {
+      id: STRING_SCHEMA,
+      mode: { type: "string", enum: [...CHECK_MODES] },
+      target: STRING_SCHEMA,
+      created_at: { type: "string", format: "date-time" },
+      expires_at: { type: "string", format: "date-time" },
+      result: schemaRef("CheckResult"),
+    },
+  },
+  CheckStreamEvent: {
+    type: "object",
+    description: "实时进度事件：start、attempt、provider、result（result 字段为 CheckResponse）或 error。",
+    required: ["type"],
+    properties: { type: { type: "string", enum: ["start", "attempt", "provider", "result", "error"] } },
+  },
+  BatchLine: {
+    type: "object",
+    description: "批量检测的一行：result（result 字段为 CheckResult）、error、skipped，最后一行为 summary。",
+    required: ["type"],
+    properties: {
+      type: { type: "string", enum: ["result", "error", "skipped", "summary"] },
+      index: INTEGER_SCHEMA,
+      mode: STRING_SCHEMA,
+      target: STRING_SCHEMA,
+      message: STRING_SCHEMA,
+      errors: { type: "array", items: schemaRef("ValidationIssue") },
+      result: schemaRef("CheckResult"),
+    },
+  },
+  MonitorSnapshot: {
+    type: "object",
+    required: ["checked_at", "message"],
+    properties: {
+      checked_at: { type: "string", format: "date-time" },
+      status: DOH_STATUS_SCHEMA,
+      ech_enabled: { type: "boolean" },
+      ech_consistent: { type: ["boolean", "null"] },
+      message: STRING_SCHEMA,
+      failed: { type: "boolean" },
+      skipped: { type: "boolean" },
+      changes: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { field: { type: "string", enum: ["status", "ech_enabled", "ech_consistent"] }, previous: {}, current: {} },
+        },
+      },
+      alerts_delivered: INTEGER_SCHEMA,
+    },
+  },
+  MonitorResponse: {
+    type: "object",
+    required: ["items"],
+    properties: {
+      items: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["id", "mode", "target", "latest", "history"],
+          properties: {
+            id: STRING_SCHEMA,
+            mode: { type: "string", enum: ["doh", "ech"] },
+            target: STRING_SCHEMA,
+            latest: { oneOf: [schemaRef("MonitorSnapshot"), { type: "null" }] },
+            history: { type: "array", items: schemaRef("MonitorSnapshot") },
+          },
+        },
+      },
+    },
+  },
+  UsageResponse: {
+    type: "object",
+    required: ["id", "quota", "modes", "origins", "usage"],
+    properties: {
+      id: STRING_SCHEMA,
+      quota: {
+        type: ["object", "null"],
+        properties: { limit: INTEGER_SCHEMA, window_seconds: { type: "number" }, remaining: INTEGER_SCHEMA },
+      },
+      modes: { type: ["array", "null"], items: { type: "string", enum: [...CHECK_MODES] } },
+      origins: { type: ["array", "null"], items: STRING_SCHEMA },
+      usage: {
+        type: "object",
+        required: ["total", "rejected", "first_used_at", "last_used_at", "daily"],
+        properties: {
+          total: INTEGER_SCHEMA,
+          rejected: INTEGER_SCHEMA,
+          first_used_at: { type: ["string", "null"], format: "date-time" },
+          last_used_at: { type: ["string", "null"], format: "date-time" },
+          daily: { type: "object", additionalProperties: INTEGER_SCHEMA },
+        },
+      },
+    },
+  },
+};
+
+const RESULT_ID_PARAMETER = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: { type: "string", pattern: "^[0-9A-Za-z]{10}$" },
+};
+
+const OPENAPI_DOCUMENT = {
+  openapi: "3.1.0",
+  info: {
+    title: "DoH & ECH 检测工具 API",
+    version: "1.0.0",
+    description: "检测 DoH 服务与 ECH 部署情况的 Cloudflare Worker 接口。除 /api/usage 与 /api/monitor 外，/api/* 接口均可匿名调用；ALLOW_ANONYMOUS 为 false 时全部 /api/* 接口都需要 API Key。携带 API Key 的响应只向该 Key 允许的来源返回 Access-Control-Allow-Origin。",
+  },
+  jsonSchemaDialect: "https://spec.openapis.org/oas/3.1/dialect/base",
+  security: [{}, { bearerAuth: [] }],
+  paths: {
+    "/": {
+      get: { summary: "内嵌检测页面", security: [{}], responses: { "200": { description: "HTML 页面", content: { "text/html": {} } } } },
+    },
+    "/r/{id}": {
+      get: {
+        summary: "重新渲染已保存结果的页面",
+        security: [{}],
+        parameters: [RESULT_ID_PARAMETER],
+        responses: { "200": { description: "HTML 页面，加载后读取 /api/results/{id}", content: { "text/html": {} } } },
+      },
+    },
+    "/api/check": {
+      post: {
+        summary: "执行单次检测",
+        description: "Accept 为 text/event-stream 或 application/x-ndjson 时以流的形式返回进度事件。",
+        requestBody: { required: true, content: jsonContent(schemaRef("CheckRequest")) },
+        responses: {
+          "200": {
+            description: "检测结果",
+            content: {
+              ...jsonContent(schemaRef("CheckResponse")),
+              "text/event-stream": { schema: schemaRef("CheckStreamEvent") },
+              "application/x-ndjson": { schema: schemaRef("CheckStreamEvent") },
+            },
+          },
+          "400": errorResponse("请求体校验失败（含 errors）或目标未通过校验"),
+          "401": errorResponse("API Key 无效，或已关闭匿名访问"),
+          "403": errorResponse("API Key 不允许该模式或来源"),
+          "429": { ...errorResponse("超出限流或配额"), headers: { "Retry-After": { schema: INTEGER_SCHEMA } } },
+          "500": errorResponse("服务器内部错误或配置错误（message 以“服务器配置错误：”开头并指明配置项）"),
+        },
+      },
+    },
+    "/api/batch": {
+      post: {
+        summary: "批量检测",
+        requestBody: { required: true, content: jsonContent(schemaRef("BatchRequest")) },
+        responses: {
+          "200": { description: "逐行返回的检测结果", content: { "application/x-ndjson": { schema: schemaRef("BatchLine") } } },
+          "400": errorResponse("请求体校验失败"),
+          "401": errorResponse("API Key 无效，或已关闭匿名访问"),
+          "429": { ...errorResponse("超出限流或配额"), headers: { "Retry-After": { schema: INTEGER_SCHEMA } } },
+          "500": errorResponse("服务器内部错误或配置错误（message 以“服务器配置错误：”开头并指明配置项）"),
+        },
+      },
+    },
+    "/api/results/{id}": {
+      get: {
+        summary: "读取已保存的检测结果",
+        description: "每次读取计 1 次客户端限额（不计入 API Key 用量）。",
+        parameters: [RESULT_ID_PARAMETER],
+        responses: {
+          "200": { description: "保存的结果", content: jsonContent(schemaRef("StoredCheckResult")) },
+          "400": errorResponse("ID 格式无效"),
+          "401": errorResponse("API Key 无效，或已关闭匿名访问"),
+          "403": errorResponse("API Key 不允许该来源"),
+          "404": errorResponse("结果不存在、已过期或未绑定 RESULTS_KV"),
+          "429": { ...errorResponse("超出限流或配额"), headers: { "Retry-After": { schema: INTEGER_SCHEMA } } },
+        },
+      },
+    },
+    "/api/monitor": {
+      get: {
+        summary: "定时监控的最新状态与历史",
+        description: "需要 monitor 为 true 的 API Key。",
+        security: [{ bearerAuth: [] }],
+        responses: {
+          "200": { description: "各监控项的历史", content: jsonContent(schemaRef("MonitorResponse")) },
+          "401": errorResponse("未提供或提供了无效的 API Key"),
+          "403": errorResponse("API Key 没有查看定时监控的权限或来源不被允许"),
+          "404": errorResponse("未绑定 MONITOR_KV"),
+        },
+      },
+    },
+    "/api/usage": {
+      get: {
+        summary: "当前 API Key 的配额与用量",
+        security: [{ bearerAuth: [] }],
+        responses: {
+          "200": { description: "用量", content: jsonContent(schemaRef("UsageResponse")) },
+          "401": errorResponse("未提供或提供了无效的 API Key"),
+          "404": errorResponse("未绑定 RATE_LIMITER"),
+        },
+      },
+    },
+    "/api/openapi.json": {
+      get: {
+        summary: "本文档",
+        responses: {
+          "200": { description: "OpenAPI 3.1 文档", content: { "application/json": {} } },
+          "401": errorResponse("API Key 无效，或已关闭匿名访问"),
+        },
+      },
+    },
+  },
+  components: {
+    schemas: OPENAPI_SCHEMAS,
+    securitySchemes: { bearerAuth: { type: "http", scheme: "bearer", description: "API_KEYS 中配置的 Token。" } },
+  },
+};
 
 const HTML_PAGE = /* html */ `<!DOCTYPE html>
 <html lang="zh-CN">
@@ -1334,7 +7117,25 @@ const HTML_PAGE = /* html */ `<!DOCTYPE html>
     label {
       font-weight: 600;
     }
-    input[type="text"] {
+    .form-row {
+      display: grid;
+      gap: 16px;
+      grid-template-columns: minmax(140px, 200px) 1fr;
+    }
+    label.checkbox {
+      display: inline-flex;
+      align-items: center;
+      gap: 8px;
+      font-weight: 500;
+    }
+    .form-row .field {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+    }
+    input[type="text"],
+    input[type="number"],
+    select {
       padding: 12px 16px;
       border-radius: 12px;
       border: 1px solid rgba(37, 99, 235, 0.3);
@@ -1342,7 +7143,9 @@ const HTML_PAGE = /* html */ `<!DOCTYPE html>
       outline: none;
       transition: border-color 0.2s ease;
     }
-    input[type="text"]:focus {
+    input[type="text"]:focus,
+    input[type="number"]:focus,
+    select:focus {
       border-color: var(--primary);
       box-shadow: 0 0 0 3px rgba(37, 99, 235, 0.2);
     }
@@ -1385,9 +7188,49 @@ const HTML_PAGE = /* html */ `<!DOCTYPE html>
       font-weight: 600;
       margin-bottom: 8px;
     }
-    .badge.success { color: var(--success); }
-    .badge.failure { color: var(--error); }
-    .badge.partial { color: var(--primary); }
+    .badge.success { color: var(--success); }
+    .badge.failure { color: var(--error); }
+    .badge.partial { color: var(--primary); }
+    .badge.pending { color: var(--muted); }
+    .permalink {
+      font-size: 0.9rem;
+      color: var(--muted);
+      margin: 4px 0 8px;
+      word-break: break-all;
+    }
+    .bench-chart {
+      display: grid;
+      gap: 10px;
+    }
+    .bench-row {
+      display: grid;
+      grid-template-columns: 110px 1fr;
+      gap: 8px;
+      align-items: center;
+      font-size: 0.9rem;
+    }
+    .bench-bars {
+      display: grid;
+      gap: 4px;
+    }
+    .bench-track {
+      position: relative;
+      height: 14px;
+      border-radius: 7px;
+      background: rgba(107, 114, 128, 0.12);
+    }
+    .bench-track .p95,
+    .bench-track .p50 {
+      position: absolute;
+      left: 0;
+      top: 0;
+      bottom: 0;
+      border-radius: 7px;
+    }
+    .bench-track.cached .p95 { background: rgba(5, 150, 105, 0.3); }
+    .bench-track.cached .p50 { background: var(--success); }
+    .bench-track.uncached .p95 { background: rgba(37, 99, 235, 0.3); }
+    .bench-track.uncached .p50 { background: var(--primary); }
     .details {
         margin-top: 18px;
         border-radius: 14px;
@@ -1455,6 +7298,9 @@ const HTML_PAGE = /* html */ `<!DOCTYPE html>
       .provider-card.failure {
         border-color: rgba(220, 38, 38, 0.45);
       }
+      .provider-card.pending {
+        border-style: dashed;
+      }
       .provider-card .name {
         display: flex;
         align-items: center;
@@ -1481,6 +7327,18 @@ const HTML_PAGE = /* html */ `<!DOCTYPE html>
         color: var(--fg);
         word-break: break-all;
       }
+      .provider-card .ech-config {
+        border-top: 1px dashed rgba(37, 99, 235, 0.2);
+        padding-top: 6px;
+        font-size: 0.88rem;
+        color: var(--muted);
+        display: grid;
+        gap: 2px;
+        word-break: break-all;
+      }
+      .provider-card .ech-config .issue {
+        color: var(--error);
+      }
       .notes-list {
         margin: 0;
         padding-left: 20px;
@@ -1556,6 +7414,11 @@ const HTML_PAGE = /* html */ `<!DOCTYPE html>
     .mode-card.failure {
       border-color: var(--error);
     }
+    .mode-card.unsupported {
+      border-style: dashed;
+      border-color: var(--muted);
+      opacity: 0.8;
+    }
     .mode-card h3 {
       margin: 0 0 6px;
       font-size: 1.05rem;
@@ -1614,6 +7477,36 @@ const HTML_PAGE = /* html */ `<!DOCTYPE html>
       <form id="doh-form">
         <label for="doh-url">DoH 服务 URL</label>
         <input id="doh-url" name="doh-url" type="text" placeholder="例如：https://dns.adguard-dns.com/dns-query" required />
+        <div class="form-row">
+          <div class="field">
+            <label for="doh-record-type">记录类型</label>
+            <select id="doh-record-type" name="doh-record-type">
+              <option value="A" selected>A</option>
+              <option value="AAAA">AAAA</option>
+              <option value="CNAME">CNAME</option>
+              <option value="MX">MX</option>
+              <option value="TXT">TXT</option>
+              <option value="NS">NS</option>
+              <option value="SOA">SOA</option>
+              <option value="CAA">CAA</option>
+            </select>
+          </div>
+          <div class="field">
+            <label for="doh-name">查询域名（可选）</label>
+            <input id="doh-name" name="doh-name" type="text" placeholder="留空则使用服务端配置的测试域名" />
+          </div>
+          <div class="field">
+            <label for="doh-compare">比对方式</label>
+            <select id="doh-compare" name="doh-compare">
+              <option value="cdn" selected>CDN 感知（网段 / ASN 相似度）</option>
+              <option value="exact">精确匹配</option>
+            </select>
+          </div>
+        </div>
+        <label class="checkbox">
+          <input id="doh-dual-stack" name="doh-dual-stack" type="checkbox" />
+          双栈检测（同时查询 A 与 AAAA，忽略记录类型）
+        </label>
         <button type="submit">开始检测</button>
       </form>
       <div class="result" id="doh-result"></div>
@@ -1628,20 +7521,148 @@ const HTML_PAGE = /* html */ `<!DOCTYPE html>
       </form>
       <div class="result" id="ech-result"></div>
     </section>
+
+    <section class="card" id="dnssec-card">
+      <h2>DNSSEC 验证检测器</h2>
+      <form id="dnssec-form">
+        <label for="dnssec-url">DoH 服务 URL</label>
+        <input id="dnssec-url" name="dnssec-url" type="text" placeholder="例如：https://dns.adguard-dns.com/dns-query" required />
+        <label for="dnssec-name">查询域名（可选，需已签名）</label>
+        <input id="dnssec-name" name="dnssec-name" type="text" placeholder="留空则使用服务端配置的测试域名" />
+        <button type="submit">开始检测</button>
+      </form>
+      <div class="result" id="dnssec-result"></div>
+    </section>
+
+    <section class="card" id="ecs-card">
+      <h2>ECS 行为检测器</h2>
+      <form id="ecs-form">
+        <label for="ecs-url">DoH 服务 URL</label>
+        <input id="ecs-url" name="ecs-url" type="text" placeholder="例如：https://dns.adguard-dns.com/dns-query" required />
+        <label for="ecs-name">查询域名（可选，建议使用 CDN 域名）</label>
+        <input id="ecs-name" name="ecs-name" type="text" placeholder="留空则使用服务端配置的测试域名" />
+        <label for="ecs-subnets">客户端子网（可选，逗号分隔）</label>
+        <input id="ecs-subnets" name="ecs-subnets" type="text" placeholder="默认：1.2.4.0/24, 12.0.0.0/24" />
+        <button type="submit">开始检测</button>
+      </form>
+      <div class="result" id="ecs-result"></div>
+    </section>
+
+    <section class="card" id="padding-card">
+      <h2>EDNS(0) 填充检测器</h2>
+      <form id="padding-form">
+        <label for="padding-url">DoH 服务 URL</label>
+        <input id="padding-url" name="padding-url" type="text" placeholder="例如：https://dns.adguard-dns.com/dns-query" required />
+        <label for="padding-name">查询域名（可选）</label>
+        <input id="padding-name" name="padding-name" type="text" placeholder="留空则使用服务端配置的测试域名" />
+        <button type="submit">开始检测</button>
+      </form>
+      <div class="result" id="padding-result"></div>
+    </section>
+
+    <section class="card" id="nxdomain-card">
+      <h2>NXDOMAIN 劫持检测器</h2>
+      <form id="nxdomain-form">
+        <label for="nxdomain-url">DoH 服务 URL</label>
+        <input id="nxdomain-url" name="nxdomain-url" type="text" placeholder="例如：https://dns.adguard-dns.com/dns-query" required />
+        <label for="nxdomain-name">测试域名（可选）</label>
+        <input id="nxdomain-name" name="nxdomain-name" type="text" placeholder="在其下生成随机子域名，留空则使用服务端配置的测试域名" />
+        <button type="submit">开始检测</button>
+      </form>
+      <div class="result" id="nxdomain-result"></div>
+    </section>
+
+    <section class="card" id="filtering-card">
+      <h2>过滤策略检测器</h2>
+      <form id="filtering-form">
+        <label for="filtering-url">DoH 服务 URL</label>
+        <input id="filtering-url" name="filtering-url" type="text" placeholder="例如：https://dns.adguard-dns.com/dns-query" required />
+        <button type="submit">开始检测</button>
+      </form>
+      <div class="result" id="filtering-result"></div>
+    </section>
+
+    <section class="card" id="benchmark-card">
+      <h2>延迟基准测试</h2>
+      <form id="benchmark-form">
+        <label for="benchmark-url">DoH 服务 URL</label>
+        <input id="benchmark-url" name="benchmark-url" type="text" placeholder="例如：https://dns.adguard-dns.com/dns-query" required />
+        <div class="form-row">
+          <div class="field">
+            <label for="benchmark-name">测试域名（可选）</label>
+            <input id="benchmark-name" name="benchmark-name" type="text" placeholder="留空则使用服务端配置的测试域名" />
+          </div>
+          <div class="field">
+            <label for="benchmark-samples">每组查询次数</label>
+            <input id="benchmark-samples" name="benchmark-samples" type="number" min="1" max="7" value="5" />
+          </div>
+        </div>
+        <button type="submit">开始测试</button>
+      </form>
+      <div class="result" id="benchmark-result"></div>
+    </section>
+
+    <section class="card" id="cache-card">
+      <h2>缓存行为检测器</h2>
+      <form id="cache-form">
+        <label for="cache-url">DoH 服务 URL</label>
+        <input id="cache-url" name="cache-url" type="text" placeholder="例如：https://dns.adguard-dns.com/dns-query" required />
+        <label for="cache-name">查询域名（可选）</label>
+        <input id="cache-name" name="cache-name" type="text" placeholder="留空则使用服务端配置的测试域名" />
+        <button type="submit">开始检测</button>
+      </form>
+      <div class="result" id="cache-result"></div>
+    </section>
   </main>
   <script>
     const API_PATH = '/api/check';
+    const RESULTS_API_PATH = '/api/results/';
+    const PERMALINK_PATH = '/r/';
 
     const dohForm = document.getElementById('doh-form');
     const dohResultNode = document.getElementById('doh-result');
     const echForm = document.getElementById('ech-form');
     const echResultNode = document.getElementById('ech-result');
+    const dnssecForm = document.getElementById('dnssec-form');
+    const dnssecResultNode = document.getElementById('dnssec-result');
+    const ecsForm = document.getElementById('ecs-form');
+    const ecsResultNode = document.getElementById('ecs-result');
+    const paddingForm = document.getElementById('padding-form');
+    const paddingResultNode = document.getElementById('padding-result');
+    const nxdomainForm = document.getElementById('nxdomain-form');
+    const nxdomainResultNode = document.getElementById('nxdomain-result');
+    const filteringForm = document.getElementById('filtering-form');
+    const filteringResultNode = document.getElementById('filtering-result');
+    const benchmarkForm = document.getElementById('benchmark-form');
+    const benchmarkResultNode = document.getElementById('benchmark-result');
+    const cacheForm = document.getElementById('cache-form');
+    const cacheResultNode = document.getElementById('cache-result');
+    const resultNodes = {
+      doh: dohResultNode,
+      ech: echResultNode,
+      dnssec: dnssecResultNode,
+      ecs: ecsResultNode,
+      padding: paddingResultNode,
+      nxdomain: nxdomainResultNode,
+      filtering: filteringResultNode,
+      benchmark: benchmarkResultNode,
+      cache: cacheResultNode,
+    };
+    let providerLabels = {};
+
+    if (location.pathname.startsWith(PERMALINK_PATH)) {
+      loadSharedResult(location.pathname.slice(PERMALINK_PATH.length));
+    }
 
     dohForm.addEventListener('submit', async (event) => {
       event.preventDefault();
       await handleSubmit(dohForm, dohResultNode, {
         mode: 'doh',
         target: dohForm['doh-url'].value.trim(),
+        record_type: dohForm['doh-record-type'].value,
+        name: dohForm['doh-name'].value.trim() || undefined,
+        dual_stack: dohForm['doh-dual-stack'].checked || undefined,
+        compare: dohForm['doh-compare'].value,
       });
     });
 
@@ -1653,6 +7674,71 @@ const HTML_PAGE = /* html */ `<!DOCTYPE html>
       });
     });
 
+    dnssecForm.addEventListener('submit', async (event) => {
+      event.preventDefault();
+      await handleSubmit(dnssecForm, dnssecResultNode, {
+        mode: 'dnssec',
+        target: dnssecForm['dnssec-url'].value.trim(),
+        name: dnssecForm['dnssec-name'].value.trim() || undefined,
+      });
+    });
+
+    ecsForm.addEventListener('submit', async (event) => {
+      event.preventDefault();
+      const subnets = ecsForm['ecs-subnets'].value.split(',').map((item) => item.trim()).filter(Boolean);
+      await handleSubmit(ecsForm, ecsResultNode, {
+        mode: 'ecs',
+        target: ecsForm['ecs-url'].value.trim(),
+        name: ecsForm['ecs-name'].value.trim() || undefined,
+        subnets: subnets.length > 0 ? subnets : undefined,
+      });
+    });
+
+    paddingForm.addEventListener('submit', async (event) => {
+      event.preventDefault();
+      await handleSubmit(paddingForm, paddingResultNode, {
+        mode: 'padding',
+        target: paddingForm['padding-url'].value.trim(),
+        name: paddingForm['padding-name'].value.trim() || undefined,
+      });
+    });
+
+    nxdomainForm.addEventListener('submit', async (event) => {
+      event.preventDefault();
+      await handleSubmit(nxdomainForm, nxdomainResultNode, {
+        mode: 'nxdomain',
+        target: nxdomainForm['nxdomain-url'].value.trim(),
+        name: nxdomainForm['nxdomain-name'].value.trim() || undefined,
+      });
+    });
+
+    filteringForm.addEventListener('submit', async (event) => {
+      event.preventDefault();
+      await handleSubmit(filteringForm, filteringResultNode, {
+        mode: 'filtering',
+        target: filteringForm['filtering-url'].value.trim(),
+      });
+    });
+
+    benchmarkForm.addEventListener('submit', async (event) => {
+      event.preventDefault();
+      await handleSubmit(benchmarkForm, benchmarkResultNode, {
+        mode: 'benchmark',
+        target: benchmarkForm['benchmark-url'].value.trim(),
+        name: benchmarkForm['benchmark-name'].value.trim() || undefined,
+        samples: Number(benchmarkForm['benchmark-samples'].value) || undefined,
+      });
+    });
+
+    cacheForm.addEventListener('submit', async (event) => {
+      event.preventDefault();
+      await handleSubmit(cacheForm, cacheResultNode, {
+        mode: 'cache',
+        target: cacheForm['cache-url'].value.trim(),
+        name: cacheForm['cache-name'].value.trim() || undefined,
+      });
+    });
+
     async function handleSubmit(form, resultNode, payload) {
       const submitButton = form.querySelector('button[type="submit"]');
       const originalText = submitButton.textContent;
@@ -1664,12 +7750,41 @@ const HTML_PAGE = /* html */ `<!DOCTYPE html>
       try {
         const response = await fetch(API_PATH, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
           body: JSON.stringify(payload),
         });
 
-        const data = await response.json();
-        renderResult(resultNode, response.ok, data, payload.mode);
+        const contentType = response.headers.get('Content-Type') || '';
+        if (!response.body || !contentType.includes('text/event-stream')) {
+          const data = await response.json();
+          renderResult(resultNode, response.ok, data, payload.mode);
+          return;
+        }
+
+        const progress = createProgressView(resultNode);
+        let finished = false;
+        await readEventStream(response.body, (type, data) => {
+          if (type === 'start') {
+            progress.start(data);
+          } else if (type === 'attempt') {
+            progress.attempt(data);
+          } else if (type === 'provider') {
+            progress.provider(data);
+          } else if (type === 'result') {
+            finished = true;
+            resultNode.className = 'result';
+            resultNode.innerHTML = '';
+            renderResult(resultNode, true, data.result, payload.mode);
+          } else if (type === 'error') {
+            finished = true;
+            resultNode.className = 'result';
+            resultNode.innerHTML = '';
+            renderResult(resultNode, false, { status: 'error', message: data.message }, payload.mode);
+          }
+        });
+        if (!finished) {
+          throw new Error('检测进度流意外中断，请稍后重试。');
+        }
       } catch (error) {
         renderError(resultNode, error);
       } finally {
@@ -1678,7 +7793,146 @@ const HTML_PAGE = /* html */ `<!DOCTYPE html>
       }
     }
 
+    async function loadSharedResult(id) {
+      let node = dohResultNode;
+      try {
+        const response = await fetch(RESULTS_API_PATH + encodeURIComponent(id));
+        const data = await response.json();
+        if (!response.ok || data.status === 'error') {
+          renderResult(node, false, data, 'doh');
+        } else {
+          node = resultNodes[data.mode] || dohResultNode;
+          const permalink = { id: data.id, url: location.href, expires_at: data.expires_at, created_at: data.created_at };
+          renderResult(node, true, Object.assign({}, data.result, { permalink }), data.mode);
+        }
+      } catch (error) {
+        renderError(node, error);
+      }
+      node.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+
+    function appendPermalink(node, permalink) {
+      if (!permalink?.url) return;
+      const paragraph = document.createElement('p');
+      paragraph.classList.add('permalink');
+      const link = document.createElement('a');
+      link.href = permalink.url;
+      link.textContent = permalink.url;
+      const expires = permalink.expires_at ? '，保留至 ' + new Date(permalink.expires_at).toLocaleString() : '';
+      const created = permalink.created_at ? '检测于 ' + new Date(permalink.created_at).toLocaleString() + '，' : '';
+      paragraph.append(created + '分享链接：', link, expires);
+      node.appendChild(paragraph);
+    }
+
+    async function readEventStream(body, onEvent) {
+      const reader = body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        let boundary = buffer.indexOf('\\n\\n');
+        while (boundary !== -1) {
+          const block = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          let type = 'message';
+          const dataLines = [];
+          block.split('\\n').forEach((line) => {
+            if (line.startsWith('event:')) type = line.slice(6).trim();
+            else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+          });
+          if (dataLines.length > 0) {
+            onEvent(type, JSON.parse(dataLines.join('\\n')));
+          }
+          boundary = buffer.indexOf('\\n\\n');
+        }
+      }
+    }
+
+    function createProgressView(node) {
+      node.classList.add('active');
+      const badge = document.createElement('div');
+      badge.classList.add('badge', 'pending');
+      badge.textContent = '… 检测进行中';
+      node.appendChild(badge);
+      const message = document.createElement('p');
+      message.textContent = '正在查询各解析器，结果将逐个显示。';
+      node.appendChild(message);
+      const grids = {};
+      const cards = {};
+
+      function ensureGrid(stage) {
+        if (!grids[stage]) {
+          const section = document.createElement('section');
+          section.classList.add('details-section');
+          const title = document.createElement('h4');
+          title.textContent = stage === 'doh' ? '解析器结果（实时）' : stage === 'ecs' ? 'ECS 探测（实时）' : 'HTTPS 记录（实时）';
+          section.appendChild(title);
+          const grid = document.createElement('div');
+          grid.classList.add('provider-grid');
+          section.appendChild(grid);
+          node.appendChild(section);
+          grids[stage] = grid;
+        }
+        return grids[stage];
+      }
+
+      function ensureCard(stage, key) {
+        const id = stage + ':' + key;
+        if (!cards[id]) {
+          const card = document.createElement('div');
+          card.classList.add('provider-card', 'pending');
+          const header = document.createElement('div');
+          header.classList.add('name');
+          const name = document.createElement('span');
+          name.textContent = formatProviderLabel(key);
+          const status = document.createElement('span');
+          status.classList.add('status');
+          status.textContent = '查询中…';
+          header.appendChild(name);
+          header.appendChild(status);
+          card.appendChild(header);
+          ensureGrid(stage).appendChild(card);
+          cards[id] = card;
+        }
+        return cards[id];
+      }
+
+      return {
+        start(data) {
+          providerLabels = Object.assign({}, data.labels || {});
+          const stage = data.mode === 'ech' || data.mode === 'ecs' ? data.mode : 'doh';
+          Object.keys(providerLabels).forEach((key) => ensureCard(stage, key));
+        },
+        attempt(data) {
+          const card = ensureCard(data.stage, data.provider);
+          const line = document.createElement('div');
+          line.classList.add('meta');
+          const result = data.result || {};
+          const ok = data.stage === 'ech' ? result.found : result.ok;
+          const outcome = ok ? '✔' : '✖';
+          const latency = result.latency_ms != null ? '，' + result.latency_ms + ' ms' : '';
+          let prefix = (data.name ? data.name + ' · ' : '') + (data.record_type ? data.record_type + ' · ' : '');
+          if (data.stage === 'ecs') {
+            prefix += (data.subnet ? 'ECS ' + data.subnet : '无 ECS') + ' · ';
+          }
+          line.textContent = outcome + ' ' + prefix + formatModeLabel(data.mode) + latency + (ok || !result.error ? '' : '：' + result.error);
+          card.appendChild(line);
+        },
+        provider(data) {
+          const card = ensureCard(data.stage, data.provider);
+          const finalCard = data.stage === 'doh'
+            ? createDohProviderCard(data.provider, data.result)
+            : createEchProviderCard(data.provider, data.result);
+          card.replaceWith(finalCard);
+          cards[data.stage + ':' + data.provider] = finalCard;
+        },
+      };
+    }
+
     function renderResult(node, ok, data, mode) {
+      providerLabels = Object.assign({}, data?.labels || {});
       node.classList.add('active');
       const badge = document.createElement('div');
       badge.classList.add('badge');
@@ -1698,7 +7952,7 @@ const HTML_PAGE = /* html */ `<!DOCTYPE html>
       return;
     }
 
-    if (mode === 'doh') {
+    if (mode === 'doh' || mode === 'dnssec' || mode === 'ecs' || mode === 'padding' || mode === 'nxdomain' || mode === 'filtering' || mode === 'benchmark' || mode === 'cache') {
       const status = data.status;
       if (status === 'success') {
         badge.classList.add('success');
@@ -1708,6 +7962,14 @@ const HTML_PAGE = /* html */ `<!DOCTYPE html>
         badge.classList.add('partial');
         badge.textContent = '△ 部分匹配';
         node.classList.add('partial');
+      } else if (status === 'empty_answer') {
+        badge.classList.add('partial');
+        badge.textContent = '○ 无记录';
+        node.classList.add('partial');
+      } else if (status === 'resolver_error') {
+        badge.classList.add('failure');
+        badge.textContent = '✖ 解析器错误';
+        node.classList.add('failure');
       } else {
         badge.classList.add('failure');
         badge.textContent = '✖ 结果不一致';
@@ -1717,9 +7979,31 @@ const HTML_PAGE = /* html */ `<!DOCTYPE html>
       const message = document.createElement('p');
       message.textContent = data.message;
       node.appendChild(message);
+      appendPermalink(node, data.permalink);
       if (data.ech_comparison) {
         renderEchComparisonSummary(node, data.ech_comparison);
       }
+      if (mode === 'dnssec') {
+        renderDnssecValidation(node, data);
+      }
+      if (mode === 'ecs') {
+        renderEcsProviders(node, data);
+      }
+      if (mode === 'padding') {
+        renderPaddingProviders(node, data);
+      }
+      if (mode === 'nxdomain') {
+        renderNxdomainProviders(node, data);
+      }
+      if (mode === 'filtering') {
+        renderFilteringProviders(node, data);
+      }
+      if (mode === 'benchmark') {
+        renderBenchmarkChart(node, data);
+      }
+      if (mode === 'cache') {
+        renderCacheProviders(node, data);
+      }
       renderDohModeCards(node, data.details?.target);
       appendDetails(node, data, mode);
     } else {
@@ -1736,6 +8020,7 @@ const HTML_PAGE = /* html */ `<!DOCTYPE html>
         const message = document.createElement('p');
         message.textContent = data.message;
         node.appendChild(message);
+        appendPermalink(node, data.permalink);
       appendDetails(node, data, mode);
       }
     }
@@ -1790,29 +8075,31 @@ function renderEchComparisonSummary(node, comparison) {
 }
 
 function computeEchState(comparison) {
-  const targetHasEch = providerHasEch(comparison.target);
-  const cloudflareHasEch = providerHasEch(comparison.cloudflare);
-  const googleHasEch = providerHasEch(comparison.google);
-  const authorityHasEch = cloudflareHasEch || googleHasEch;
+  const providers = comparison.providers || {};
+  const targetHasEch = providerHasEch(providers.target);
+  const referenceKeys = Object.keys(providers).filter((key) => key !== 'target');
+  const referencesWithEch = referenceKeys.filter((key) => providerHasEch(providers[key]));
+  const authorityHasEch = referencesWithEch.length > 0;
+  const referenceNames = referenceKeys.map(formatProviderLabel).join('、');
 
   if (!targetHasEch && !authorityHasEch) {
     return {
       code: 1,
-      message: '状态 1：目标 DoH、Cloudflare、Google 均未返回 ECH 配置。',
+      message: '状态 1：目标 DoH、' + referenceNames + ' 均未返回 ECH 配置。',
     };
   }
 
   if (!targetHasEch && authorityHasEch) {
     return {
       code: 2,
-      message: '状态 2：权威解析（Cloudflare/Google）已提供 ECH，但目标 DoH 未返回，请检查自定义服务。',
+      message: '状态 2：权威解析（' + referencesWithEch.map(formatProviderLabel).join('/') + '）已提供 ECH，但目标 DoH 未返回，请检查自定义服务。',
     };
   }
 
-  if (targetHasEch && cloudflareHasEch && googleHasEch && comparison.consistent === true) {
+  if (targetHasEch && referencesWithEch.length === referenceKeys.length && comparison.consistent === true) {
     return {
       code: 3,
-      message: '状态 3：目标 DoH、Cloudflare、Google 均返回 ECH，配置完全一致。',
+      message: '状态 3：目标 DoH、' + referenceNames + ' 均返回 ECH，配置完全一致。',
     };
   }
 
@@ -1855,12 +8142,24 @@ function providerHasEch(provider) {
         if (mode === 'doh' && data.details) {
           sections.push(buildDohProvidersSection(data.details));
         }
+        if (mode === 'doh' && data.comparison?.families) {
+          sections.push(buildFamilyComparisonSection(data.comparison.families));
+        }
+        if (mode === 'doh' && data.comparison?.similarity) {
+          sections.push(buildSimilaritySection(data.comparison.similarity));
+        }
         if (mode === 'ech' && data.providers) {
           sections.push(buildEchProvidersSection(data.providers));
         }
         if (mode === 'doh' && data.ech_comparison) {
           sections.push(buildEchComparisonSection(data.ech_comparison));
         }
+        if (mode === 'dnssec' && data.chain) {
+          sections.push(buildDnssecChainSection(data.chain));
+        }
+        if (mode === 'dnssec' && data.details) {
+          sections.push(buildDohProvidersSection(data.details));
+        }
         return sections;
       }
 
@@ -1880,6 +8179,43 @@ function providerHasEch(provider) {
         return section;
       }
 
+      function buildFamilyComparisonSection(families) {
+        const section = document.createElement('section');
+        section.classList.add('details-section');
+        const title = document.createElement('h4');
+        title.textContent = '双栈比对结果';
+        section.appendChild(title);
+
+        const list = document.createElement('ul');
+        list.classList.add('notes-list');
+        Object.entries(families).forEach(([recordType, matches]) => {
+          const item = document.createElement('li');
+          const parts = Object.entries(matches).map(([key, matched]) => formatProviderLabel(key) + (matched ? ' ✔' : ' ✖'));
+          item.textContent = (recordType === 'AAAA' ? 'IPv6' : 'IPv4') + '（' + recordType + '）：' + parts.join('，');
+          list.appendChild(item);
+        });
+        section.appendChild(list);
+        return section;
+      }
+
+      function buildSimilaritySection(similarity) {
+        const section = document.createElement('section');
+        section.classList.add('details-section');
+        const title = document.createElement('h4');
+        title.textContent = 'CDN 相似度';
+        section.appendChild(title);
+
+        const list = document.createElement('ul');
+        list.classList.add('notes-list');
+        Object.entries(similarity).forEach(([key, entry]) => {
+          const item = document.createElement('li');
+          item.textContent = formatProviderLabel(key) + '：' + entry.explanation;
+          list.appendChild(item);
+        });
+        section.appendChild(list);
+        return section;
+      }
+
       function buildEchProvidersSection(providers) {
         const section = document.createElement('section');
         section.classList.add('details-section');
@@ -1930,14 +8266,48 @@ function providerHasEch(provider) {
 
         const grid = document.createElement('div');
         grid.classList.add('provider-grid');
-        grid.appendChild(createEchProviderCard('target', comparison.target));
-        grid.appendChild(createEchProviderCard('cloudflare', comparison.cloudflare));
-        grid.appendChild(createEchProviderCard('google', comparison.google));
+        Object.entries(comparison.providers || {}).forEach(([key, provider]) => {
+          grid.appendChild(createEchProviderCard(key, provider));
+        });
         section.appendChild(grid);
 
         return section;
       }
 
+      function buildDnssecChainSection(chain) {
+        const section = document.createElement('section');
+        section.classList.add('details-section');
+        const title = document.createElement('h4');
+        title.textContent = '信任链验证';
+        section.appendChild(title);
+
+        const status = document.createElement('div');
+        status.classList.add('detail-status', chain.status === 'secure' ? 'success' : chain.status === 'bogus' ? 'failure' : 'neutral');
+        status.textContent = (DNSSEC_CHAIN_LABELS[chain.status] || chain.status)
+          + (chain.source ? '（数据来源：' + formatProviderLabel(chain.source) + '，共 ' + chain.queries + ' 次查询）' : '');
+        section.appendChild(status);
+
+        const list = document.createElement('ul');
+        list.classList.add('notes-list');
+        (chain.zones || []).forEach((zone) => {
+          const item = document.createElement('li');
+          const parts = [zone.zone + '：' + (DNSSEC_CHAIN_LABELS[zone.status] || zone.status)];
+          if (zone.algorithms?.length) parts.push('算法 ' + zone.algorithms.join('、'));
+          if (zone.dnskey_tags?.length) parts.push('DNSKEY ' + zone.dnskey_tags.join('、'));
+          if (zone.ds_tags?.length) parts.push('DS ' + zone.ds_tags.join('、'));
+          if (zone.note) parts.push(zone.note);
+          item.textContent = parts.join('，');
+          list.appendChild(item);
+        });
+        if (chain.error) {
+          const item = document.createElement('li');
+          item.textContent = chain.error;
+          list.appendChild(item);
+        }
+        section.appendChild(list);
+        return section;
+      }
+
       function buildRawJsonSection(data) {
         const section = document.createElement('section');
         section.classList.add('details-section', 'raw-json');
@@ -1974,6 +8344,21 @@ function providerHasEch(provider) {
           card.appendChild(ips);
         }
 
+        const otherRecords = formatNonAddressRecords(provider?.records);
+        if (otherRecords) {
+          const records = document.createElement('div');
+          records.classList.add('highlight');
+          records.textContent = '记录：' + otherRecords;
+          card.appendChild(records);
+        }
+
+        if (provider?.cname_chain && provider.cname_chain.length > 1) {
+          const chain = document.createElement('div');
+          chain.classList.add('highlight');
+          chain.textContent = 'CNAME 链：' + provider.cname_chain.join(' → ') + (provider.ips?.length ? ' → ' + provider.ips.join('、') : '');
+          card.appendChild(chain);
+        }
+
         const metaPieces = [];
         if (typeof provider?.latency_ms === 'number') metaPieces.push('耗时 ' + provider.latency_ms + ' ms');
         if (provider?.response_format) metaPieces.push('格式 ' + String(provider.response_format).toUpperCase());
@@ -1985,6 +8370,13 @@ function providerHasEch(provider) {
           card.appendChild(meta);
         }
 
+        if (Array.isArray(provider?.supported_formats) && provider.supported_formats.length > 0) {
+          const formats = document.createElement('div');
+          formats.classList.add('meta');
+          formats.textContent = '可用模式：' + provider.supported_formats.map(formatModeLabel).join('、');
+          card.appendChild(formats);
+        }
+
         if (!ok && provider?.error) {
           const note = document.createElement('div');
           note.classList.add('note');
@@ -2012,11 +8404,18 @@ function providerHasEch(provider) {
         header.appendChild(status);
         card.appendChild(header);
 
-        if (provider?.record) {
+        const recordLines = Array.isArray(provider?.records) && provider.records.length > 0
+          ? provider.records.map((item) => (item.presentation || '（无法解析）') + (item.error ? '（' + item.error + '）' : ''))
+          : (provider?.record ? [provider.record] : []);
+        recordLines.forEach((line) => {
           const record = document.createElement('div');
           record.classList.add('highlight');
-          record.textContent = provider.record;
+          record.textContent = line;
           card.appendChild(record);
+        });
+
+        if (provider?.ech_config_list) {
+          appendEchConfigList(card, provider.ech_config_list);
         }
 
         const metaPieces = [];
@@ -2040,6 +8439,469 @@ function providerHasEch(provider) {
         return card;
       }
 
+      function appendEchConfigList(card, list) {
+        if (list.error) {
+          const issue = document.createElement('div');
+          issue.classList.add('ech-config');
+          const text = document.createElement('span');
+          text.classList.add('issue');
+          text.textContent = 'ECHConfigList 无效（' + list.error.code + '）：' + list.error.message;
+          issue.appendChild(text);
+          card.appendChild(issue);
+        }
+
+        (list.configs || []).forEach((config) => {
+          const block = document.createElement('div');
+          block.classList.add('ech-config');
+          const lines = [];
+          lines.push('版本 0x' + Number(config.version).toString(16).padStart(4, '0') + (typeof config.config_id === 'number' ? ' | config_id ' + config.config_id : ''));
+          if (typeof config.kem_id === 'number') {
+            lines.push('KEM ' + (config.kem || ('0x' + config.kem_id.toString(16).padStart(4, '0'))) + ' | 公钥 ' + config.public_key_length + ' B');
+          }
+          if (Array.isArray(config.cipher_suites) && config.cipher_suites.length > 0) {
+            lines.push('套件 ' + config.cipher_suites.map((suite) => suite.kdf + ' / ' + suite.aead).join('、'));
+          }
+          if (config.public_name !== undefined) {
+            lines.push('public_name ' + config.public_name + ' | maximum_name_length ' + config.maximum_name_length);
+          }
+          if (Array.isArray(config.extensions)) {
+            lines.push('扩展 ' + (config.extensions.length > 0
+              ? config.extensions.map((ext) => ext.type + (ext.mandatory ? '(mandatory)' : '') + ' ' + ext.length + 'B').join('、')
+              : '无'));
+          }
+          lines.forEach((line) => {
+            const item = document.createElement('span');
+            item.textContent = line;
+            block.appendChild(item);
+          });
+          if (config.error) {
+            const issue = document.createElement('span');
+            issue.classList.add('issue');
+            issue.textContent = config.error.code + '：' + config.error.message;
+            block.appendChild(issue);
+          }
+          card.appendChild(block);
+        });
+      }
+
+  const DNSSEC_CHAIN_LABELS = {
+    secure: '✔ 签名链有效',
+    insecure: '— 未签名',
+    bogus: '✖ 签名无效',
+    indeterminate: '？ 无法确定',
+  };
+  const DNSSEC_BEHAVIOUR_LABELS = {
+    validating: '执行验证',
+    non_validating: '未验证',
+    stripping: '剥离签名',
+    unsigned: '域名未签名',
+    unknown: '无法判断',
+  };
+
+  function renderDnssecValidation(node, data) {
+    const section = document.createElement('section');
+    section.classList.add('details-section');
+    const title = document.createElement('h4');
+    title.textContent = 'DNSSEC 验证行为';
+    section.appendChild(title);
+
+    const grid = document.createElement('div');
+    grid.classList.add('provider-grid');
+    Object.entries(data.validation || {}).forEach(([key, verdict]) => {
+      const card = document.createElement('div');
+      card.classList.add('provider-card');
+      const good = verdict.behaviour === 'validating' && verdict.signatures_valid !== false;
+      card.classList.add(good ? 'success' : 'failure');
+
+      const header = document.createElement('div');
+      header.classList.add('name');
+      const name = document.createElement('span');
+      name.textContent = formatProviderLabel(key);
+      const status = document.createElement('span');
+      status.classList.add('status', good ? 'success' : 'failure');
+      status.textContent = DNSSEC_BEHAVIOUR_LABELS[verdict.behaviour] || verdict.behaviour;
+      header.appendChild(name);
+      header.appendChild(status);
+      card.appendChild(header);
+
+      const flags = document.createElement('div');
+      flags.classList.add('meta');
+      const formatFlag = (value) => (value === null || value === undefined ? '未知' : value ? '1' : '0');
+      const signatures = verdict.signatures_valid === null ? '未校验' : verdict.signatures_valid ? '有效' : '无效';
+      flags.textContent = 'AD=' + formatFlag(verdict.ad) + '，CD=' + formatFlag(verdict.cd) + '，RRSIG ' + verdict.rrsig_count + ' 条（签名' + signatures + '）';
+      card.appendChild(flags);
+
+      const note = document.createElement('div');
+      note.classList.add('note');
+      note.textContent = verdict.note;
+      card.appendChild(note);
+      grid.appendChild(card);
+    });
+    section.appendChild(grid);
+    node.appendChild(section);
+  }
+
+  const ECS_BEHAVIOUR_LABELS = {
+    honouring: '遵循 ECS',
+    stripping: '剥离 ECS',
+    ignoring: '忽略 ECS',
+    unknown: '无法判断',
+  };
+
+  function renderEcsProviders(node, data) {
+    const section = document.createElement('section');
+    section.classList.add('details-section');
+    const title = document.createElement('h4');
+    title.textContent = 'ECS 行为';
+    section.appendChild(title);
+
+    const targetBehaviour = data.providers?.target?.behaviour;
+    const grid = document.createElement('div');
+    grid.classList.add('provider-grid');
+    Object.entries(data.providers || {}).forEach(([key, provider]) => {
+      const card = document.createElement('div');
+      card.classList.add('provider-card');
+      const known = provider.behaviour !== 'unknown';
+      const consistent = key === 'target' ? known : provider.behaviour === targetBehaviour;
+      card.classList.add(consistent ? 'success' : 'failure');
+
+      const header = document.createElement('div');
+      header.classList.add('name');
+      const name = document.createElement('span');
+      name.textContent = formatProviderLabel(key);
+      const status = document.createElement('span');
+      status.classList.add('status', known ? 'success' : 'failure');
+      status.textContent = ECS_BEHAVIOUR_LABELS[provider.behaviour] || provider.behaviour;
+      header.appendChild(name);
+      header.appendChild(status);
+      card.appendChild(header);
+
+      (provider.probes || []).forEach((probe) => {
+        const line = document.createElement('div');
+        line.classList.add('meta');
+        const subnet = probe.subnet ? probe.subnet + (probe.repeat ? '（重复）' : '') : '无 ECS';
+        const scope = probe.client_subnet ? '，作用域 /' + probe.client_subnet.scope_prefix : probe.subnet ? '，未回显' : '';
+        const answers = probe.ok ? (probe.ips.length > 0 ? probe.ips.join(', ') : formatNonAddressRecords(probe.records)) : (probe.error || '查询失败');
+        line.textContent = subnet + scope + '：' + answers;
+        card.appendChild(line);
+      });
+
+      const note = document.createElement('div');
+      note.classList.add('note');
+      note.textContent = provider.note;
+      card.appendChild(note);
+      grid.appendChild(card);
+    });
+    section.appendChild(grid);
+    node.appendChild(section);
+  }
+
+  const PADDING_BEHAVIOUR_LABELS = {
+    padded: '已填充',
+    partial: '部分填充',
+    unpadded: '未填充',
+    unknown: '无法判断',
+  };
+
+  function renderPaddingProviders(node, data) {
+    const section = document.createElement('section');
+    section.classList.add('details-section');
+    const title = document.createElement('h4');
+    title.textContent = '响应填充情况';
+    section.appendChild(title);
+
+    const grid = document.createElement('div');
+    grid.classList.add('provider-grid');
+    Object.entries(data.providers || {}).forEach(([key, provider]) => {
+      const card = document.createElement('div');
+      card.classList.add('provider-card');
+      const padded = provider.behaviour === 'padded';
+      card.classList.add(padded ? 'success' : 'failure');
+
+      const header = document.createElement('div');
+      header.classList.add('name');
+      const name = document.createElement('span');
+      name.textContent = formatProviderLabel(key);
+      const status = document.createElement('span');
+      status.classList.add('status', padded ? 'success' : 'failure');
+      status.textContent = (PADDING_BEHAVIOUR_LABELS[provider.behaviour] || provider.behaviour)
+        + (provider.block_size ? '（' + provider.block_size + ' 字节块）' : '');
+      header.appendChild(name);
+      header.appendChild(status);
+      card.appendChild(header);
+
+      (provider.probes || []).forEach((probe) => {
+        const line = document.createElement('div');
+        line.classList.add('meta');
+        if (probe.padding) {
+          const padding = probe.padding.padded ? '填充 ' + probe.padding.padding_length + ' 字节' : '无填充';
+          line.textContent = probe.record_type + '：响应 ' + probe.padding.message_length + ' 字节，' + padding;
+        } else {
+          line.textContent = probe.record_type + '：' + (probe.error || '查询失败');
+        }
+        card.appendChild(line);
+      });
+
+      const note = document.createElement('div');
+      note.classList.add('note');
+      note.textContent = provider.note;
+      card.appendChild(note);
+      grid.appendChild(card);
+    });
+    section.appendChild(grid);
+    node.appendChild(section);
+  }
+
+  const NXDOMAIN_BEHAVIOUR_LABELS = {
+    intact: '如实返回 NXDOMAIN',
+    rewriting: '改写 NXDOMAIN',
+    inconsistent: '部分未返回 NXDOMAIN',
+    unknown: '无法判断',
+  };
+
+  function renderNxdomainProviders(node, data) {
+    const section = document.createElement('section');
+    section.classList.add('details-section');
+    const title = document.createElement('h4');
+    title.textContent = '不存在域名的解析结果';
+    section.appendChild(title);
+
+    const grid = document.createElement('div');
+    grid.classList.add('provider-grid');
+    Object.entries(data.providers || {}).forEach(([key, provider]) => {
+      const card = document.createElement('div');
+      card.classList.add('provider-card');
+      const intact = provider.behaviour === 'intact';
+      card.classList.add(intact ? 'success' : 'failure');
+
+      const header = document.createElement('div');
+      header.classList.add('name');
+      const name = document.createElement('span');
+      name.textContent = formatProviderLabel(key);
+      const status = document.createElement('span');
+      status.classList.add('status', intact ? 'success' : 'failure');
+      status.textContent = NXDOMAIN_BEHAVIOUR_LABELS[provider.behaviour] || provider.behaviour;
+      header.appendChild(name);
+      header.appendChild(status);
+      card.appendChild(header);
+
+      if (provider.rewritten_ips && provider.rewritten_ips.length > 0) {
+        const ips = document.createElement('div');
+        ips.classList.add('highlight');
+        ips.textContent = '改写为：' + provider.rewritten_ips.join('、');
+        card.appendChild(ips);
+      }
+
+      (provider.probes || []).forEach((probe) => {
+        const line = document.createElement('div');
+        line.classList.add('meta');
+        const outcome = probe.ips && probe.ips.length > 0
+          ? probe.ips.join('、')
+          : (probe.header ? probe.header.rcode_name : (probe.error || '查询失败'));
+        line.textContent = (probe.rewritten ? '✖ ' : '') + probe.name + '：' + outcome;
+        card.appendChild(line);
+      });
+
+      const note = document.createElement('div');
+      note.classList.add('note');
+      note.textContent = provider.note;
+      card.appendChild(note);
+      grid.appendChild(card);
+    });
+    section.appendChild(grid);
+    node.appendChild(section);
+  }
+
+  const FILTERING_CATEGORY_LABELS = {
+    ads: '广告',
+    tracker: '跟踪器',
+    malware: '恶意软件测试',
+    adult: '成人内容',
+  };
+
+  const FILTERING_VERDICT_LABELS = {
+    blocked: '拦截',
+    passed: '放行',
+    unavailable: '无法判断',
+    error: '查询失败',
+  };
+
+  const FILTERING_METHOD_LABELS = {
+    nxdomain: 'NXDOMAIN',
+    refused: 'REFUSED',
+    null_ip: '空地址',
+    sinkhole: '拦截页地址',
+  };
+
+  function renderFilteringProviders(node, data) {
+    const section = document.createElement('section');
+    section.classList.add('details-section');
+    const title = document.createElement('h4');
+    title.textContent = '过滤策略';
+    section.appendChild(title);
+
+    const grid = document.createElement('div');
+    grid.classList.add('provider-grid');
+    Object.entries(data.providers || {}).forEach(([key, provider]) => {
+      const card = document.createElement('div');
+      card.classList.add('provider-card');
+      const filtering = (provider.blocked_categories || []).length > 0;
+      card.classList.add(filtering ? 'failure' : 'success');
+
+      const header = document.createElement('div');
+      header.classList.add('name');
+      const name = document.createElement('span');
+      name.textContent = formatProviderLabel(key);
+      const status = document.createElement('span');
+      status.classList.add('status', filtering ? 'failure' : 'success');
+      status.textContent = filtering
+        ? '拦截：' + provider.blocked_categories.map((category) => FILTERING_CATEGORY_LABELS[category] || category).join('、')
+        : '未发现拦截';
+      header.appendChild(name);
+      header.appendChild(status);
+      card.appendChild(header);
+
+      (provider.probes || []).forEach((probe) => {
+        const line = document.createElement('div');
+        line.classList.add('meta');
+        const method = probe.block_method ? '（' + (FILTERING_METHOD_LABELS[probe.block_method] || probe.block_method) + '）' : '';
+        line.textContent = '[' + (FILTERING_CATEGORY_LABELS[probe.category] || probe.category) + '] ' + probe.name + '：'
+          + (FILTERING_VERDICT_LABELS[probe.verdict] || probe.verdict) + method
+          + (probe.ips && probe.ips.length > 0 ? ' ' + probe.ips.join('、') : '');
+        card.appendChild(line);
+      });
+
+      const note = document.createElement('div');
+      note.classList.add('note');
+      note.textContent = provider.note;
+      card.appendChild(note);
+      grid.appendChild(card);
+    });
+    section.appendChild(grid);
+    node.appendChild(section);
+  }
+
+  function renderBenchmarkChart(node, data) {
+    const section = document.createElement('section');
+    section.classList.add('details-section');
+    const title = document.createElement('h4');
+    title.textContent = '延迟对比（实心为 p50，浅色延伸至 p95）';
+    section.appendChild(title);
+
+    const providers = Object.entries(data.providers || {});
+    const scale = Math.max(1, ...providers.flatMap(([, provider]) => [provider.cached.p95 || 0, provider.uncached.p95 || 0]));
+    const chart = document.createElement('div');
+    chart.classList.add('bench-chart');
+    providers.forEach(([key, provider]) => {
+      const row = document.createElement('div');
+      row.classList.add('bench-row');
+      const label = document.createElement('span');
+      label.textContent = formatProviderLabel(key);
+      row.appendChild(label);
+
+      const bars = document.createElement('div');
+      bars.classList.add('bench-bars');
+      ['cached', 'uncached'].forEach((series) => {
+        const stats = provider[series];
+        const track = document.createElement('div');
+        track.classList.add('bench-track', series);
+        track.title = (series === 'cached' ? '缓存' : '非缓存') + '：' + formatLatencyStats(stats);
+        ['p95', 'p50'].forEach((field) => {
+          const bar = document.createElement('div');
+          bar.classList.add(field);
+          bar.style.width = ((stats[field] || 0) / scale * 100).toFixed(1) + '%';
+          track.appendChild(bar);
+        });
+        bars.appendChild(track);
+      });
+      row.appendChild(bars);
+      chart.appendChild(row);
+    });
+    section.appendChild(chart);
+
+    const list = document.createElement('ul');
+    list.classList.add('notes-list');
+    providers.forEach(([key, provider]) => {
+      const item = document.createElement('li');
+      item.textContent = formatProviderLabel(key) + '：缓存 ' + formatLatencyStats(provider.cached)
+        + '；非缓存 ' + formatLatencyStats(provider.uncached) + '。' + provider.note;
+      list.appendChild(item);
+    });
+    section.appendChild(list);
+    node.appendChild(section);
+  }
+
+  const CACHE_BEHAVIOUR_LABELS = {
+    caching: '存在缓存',
+    pass_through: '疑似直通上游',
+    multiple_caches: '多个后端缓存',
+    unknown: '无法判断',
+  };
+
+  const TTL_CLAMPING_LABELS = {
+    raised: '抬高 TTL',
+    capped: '压低 TTL',
+    none: '未发现 TTL 限制',
+    unknown: '无法判断 TTL 限制',
+  };
+
+  function renderCacheProviders(node, data) {
+    const section = document.createElement('section');
+    section.classList.add('details-section');
+    const title = document.createElement('h4');
+    title.textContent = '缓存行为';
+    section.appendChild(title);
+
+    const grid = document.createElement('div');
+    grid.classList.add('provider-grid');
+    Object.entries(data.providers || {}).forEach(([key, provider]) => {
+      const card = document.createElement('div');
+      card.classList.add('provider-card');
+      const known = provider.behaviour !== 'unknown';
+      card.classList.add(known ? 'success' : 'failure');
+
+      const header = document.createElement('div');
+      header.classList.add('name');
+      const name = document.createElement('span');
+      name.textContent = formatProviderLabel(key);
+      const status = document.createElement('span');
+      status.classList.add('status', known ? 'success' : 'failure');
+      status.textContent = CACHE_BEHAVIOUR_LABELS[provider.behaviour] || provider.behaviour;
+      header.appendChild(name);
+      header.appendChild(status);
+      card.appendChild(header);
+
+      const ttls = document.createElement('div');
+      ttls.classList.add('highlight');
+      ttls.textContent = 'TTL：' + (provider.ttls || [])
+        .map((sample) => (sample.ttl == null ? '—' : sample.ttl) + '（' + (sample.elapsed_ms / 1000).toFixed(1) + 's）')
+        .join(' → ');
+      card.appendChild(ttls);
+
+      const meta = document.createElement('div');
+      meta.classList.add('meta');
+      const pieces = [TTL_CLAMPING_LABELS[provider.clamping] || provider.clamping];
+      if (provider.ttl_min != null) pieces.push('范围 ' + provider.ttl_min + '～' + provider.ttl_max + 's');
+      if (provider.cold_ms != null) pieces.push('冷 ' + provider.cold_ms + ' ms / 热 ' + provider.warm_ms + ' ms');
+      meta.textContent = pieces.join(' | ');
+      card.appendChild(meta);
+
+      const note = document.createElement('div');
+      note.classList.add('note');
+      note.textContent = provider.note;
+      card.appendChild(note);
+      grid.appendChild(card);
+    });
+    section.appendChild(grid);
+    node.appendChild(section);
+  }
+
+  function formatLatencyStats(stats) {
+    if (!stats || stats.min == null) return '无有效样本';
+    return 'min ' + stats.min + ' / p50 ' + stats.p50 + ' / p95 ' + stats.p95 + ' / max ' + stats.max + ' ms，抖动 '
+      + (stats.jitter == null ? '—' : stats.jitter + ' ms') + '，错误率 ' + (stats.error_rate * 100).toFixed(0) + '%';
+  }
+
   function renderDohModeCards(node, targetDetail) {
     const modes = targetDetail?.mode_results || [];
     if (modes.length === 0) return;
@@ -2050,16 +8912,21 @@ function providerHasEch(provider) {
     modes.forEach((entry) => {
       const card = document.createElement('div');
       card.classList.add('mode-card');
-      card.classList.add(entry.ok ? 'success' : 'failure');
+      const unsupported = entry.supported === false;
+      card.classList.add(unsupported ? 'unsupported' : entry.ok ? 'success' : 'failure');
 
       const title = document.createElement('h3');
-      title.textContent = formatModeLabel(entry.mode);
+      title.textContent = (entry.record_type ? entry.record_type + ' · ' : '') + formatModeLabel(entry.mode);
       card.appendChild(title);
 
       const statusLine = document.createElement('p');
-      statusLine.textContent = entry.ok
-        ? '✔ 请求成功'
-        : '✖ ' + (entry.error || '请求失败');
+      if (unsupported) {
+        statusLine.textContent = '— 不支持：' + (entry.note || '未提供此请求方式');
+      } else {
+        statusLine.textContent = entry.ok
+          ? '✔ 请求成功'
+          : '✖ ' + (entry.error || '请求失败');
+      }
       card.appendChild(statusLine);
 
       if (entry.ips && entry.ips.length > 0) {
@@ -2069,6 +8936,29 @@ function providerHasEch(provider) {
         card.appendChild(ipLine);
       }
 
+      const otherRecords = formatNonAddressRecords(entry.records);
+      if (otherRecords) {
+        const recordLine = document.createElement('p');
+        recordLine.classList.add('meta');
+        recordLine.textContent = '记录：' + otherRecords;
+        card.appendChild(recordLine);
+      }
+
+      const ttls = formatRecordTtls(entry.records);
+      if (ttls) {
+        const ttlLine = document.createElement('p');
+        ttlLine.classList.add('meta');
+        ttlLine.textContent = 'TTL：' + ttls;
+        card.appendChild(ttlLine);
+      }
+
+      if (entry.header) {
+        const headerLine = document.createElement('p');
+        headerLine.classList.add('meta');
+        headerLine.textContent = 'RCODE ' + entry.header.rcode_name + ' | 标志位：' + formatHeaderFlags(entry.header.flags);
+        card.appendChild(headerLine);
+      }
+
       const metaPieces = [];
       if (typeof entry.latency_ms === 'number') {
         metaPieces.push('耗时 ' + entry.latency_ms + ' ms');
@@ -2100,12 +8990,35 @@ function providerHasEch(provider) {
     node.appendChild(container);
   }
 
+  function formatRecordTtls(records) {
+    if (!Array.isArray(records)) return '';
+    return records
+      .filter((record) => typeof record.ttl === 'number')
+      .map((record) => record.type + ' ' + record.ttl + 's')
+      .join('、');
+  }
+
+  function formatHeaderFlags(flags) {
+    const set = Object.keys(flags || {}).filter((flag) => flags[flag]).map((flag) => flag.toUpperCase());
+    return set.length > 0 ? set.join(' ') : '无';
+  }
+
+  function formatNonAddressRecords(records) {
+    if (!Array.isArray(records)) return '';
+    return records
+      .filter((record) => record.type !== 'A' && record.type !== 'AAAA')
+      .map((record) => record.type + ' ' + record.data)
+      .join('；');
+  }
+
   function formatModeLabel(mode) {
     switch (mode) {
       case 'json':
         return 'JSON 查询 (name/type)';
       case 'wire':
         return 'DNS Message (dns=)';
+      case 'post':
+        return 'DNS Message POST (application/dns-message)';
       case 'text':
         return '文本响应';
       case 'unknown':
@@ -2127,22 +9040,19 @@ function getModeDocLink(mode) {
         href: 'https://www.rfc-editor.org/rfc/rfc8484',
         label: '查看 RFC 8484 DoH 规范',
       };
+    case 'post':
+      return {
+        href: 'https://www.rfc-editor.org/rfc/rfc8484#section-4.1',
+        label: '查看 RFC 8484 POST 请求说明',
+      };
     default:
       return null;
   }
 }
 
     function formatProviderLabel(key) {
-      switch (key) {
-        case 'target':
-          return '目标 DoH';
-        case 'cloudflare':
-          return 'Cloudflare';
-        case 'google':
-          return 'Google';
-        default:
-          return key;
-      }
+      if (providerLabels[key]) return providerLabels[key];
+      return key === 'target' ? '目标 DoH' : key;
     }
   </script>
 </body>